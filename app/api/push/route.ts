@@ -0,0 +1,49 @@
+import webpush from "web-push";
+import {
+  createPushScheduler,
+  pushPublicKey,
+  validateSchedule,
+} from "@/lib/push";
+
+// web-push usa o crypto do Node
+export const runtime = "nodejs";
+
+const privateKey = process.env.VAPID_PRIVATE_KEY ?? "";
+const subject = process.env.VAPID_SUBJECT ?? "mailto:temporizador@localhost";
+
+// a agenda fica na memória do processo: precisa de um servidor que
+// continue no ar (`next start`), não de funções que dormem entre pedidos
+const scheduler = createPushScheduler(async (target, notice) => {
+  try {
+    await webpush.sendNotification(target, JSON.stringify(notice), {
+      vapidDetails: { subject, publicKey: pushPublicKey(), privateKey },
+      // atrasado demais já não serve de alarme
+      TTL: 10 * 60,
+      urgency: "high",
+    });
+    return true;
+  } catch (err) {
+    // 404/410: o navegador cancelou a assinatura
+    const status = (err as { statusCode?: number }).statusCode;
+    return status !== 404 && status !== 410;
+  }
+});
+
+/** Substitui a agenda de avisos de uma assinatura (`notices: []` limpa). */
+export async function POST(req: Request) {
+  if (!pushPublicKey() || !privateKey) {
+    return Response.json({ error: "push disabled" }, { status: 501 });
+  }
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "invalid json" }, { status: 400 });
+  }
+  const schedule = validateSchedule(body, Date.now());
+  if (!schedule) {
+    return Response.json({ error: "invalid schedule" }, { status: 400 });
+  }
+  scheduler.schedule(schedule);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { useI18n } from "@/components/I18nProvider";
+
+type Props = {
+  title: string;
+  body: string;
+  snoozeOptions: number[];
+  onDismiss: () => void;
+  onSnooze: (minutes: number) => void;
+};
+
+/** Alarme tocando: fica na tela até alguém dispensar ou adiar. */
+export default function AlarmBanner({
+  title,
+  body,
+  snoozeOptions,
+  onDismiss,
+  onSnooze,
+}: Props) {
+  const { t } = useI18n();
+  return (
+    <motion.div
+      role="alertdialog"
+      aria-label={title}
+      initial={{ opacity: 0, y: -16 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed inset-x-0 top-4 z-50 mx-auto flex w-[min(92vw,36rem)] flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-300/30 bg-raised/90 px-5 py-4 shadow-2xl backdrop-blur-xl"
+    >
+      <div>
+        <p className="font-semibold">⏰ {title}</p>
+        <p className="text-sm text-ink/70">{body}</p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {snoozeOptions.map((min) => (
+          <button
+            key={min}
+            onClick={() => onSnooze(min)}
+            className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition"
+          >
+            +{t.common.minutes(min)}
+          </button>
+        ))}
+        <button
+          autoFocus
+          onClick={onDismiss}
+          className="rounded-xl bg-amber-500/25 px-4 py-2 text-sm font-semibold hover:bg-amber-500/30 transition"
+        >
+          {t.alarm.dismiss}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { useI18n } from "@/components/I18nProvider";
+import { formatKey, fuzzyFilter } from "@/lib/shortcuts";
+
+export type Command = {
+  id: string;
+  label: string;
+  /** tecla de atalho, se houver */
+  shortcut?: string;
+  run: () => void;
+};
+
+type Props = {
+  commands: Command[];
+  onClose: () => void;
+};
+
+/** Ctrl+K: todas as ações da página, com busca aproximada. */
+export default function CommandPalette({ commands, onClose }: Props) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+
+  const matches = useMemo(
+    () => fuzzyFilter(commands, query, (c) => c.label),
+    [commands, query],
+  );
+  const current = Math.min(selected, matches.length - 1);
+
+  function run(command: Command | undefined) {
+    if (!command) return;
+    onClose();
+    command.run();
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((current + 1) % Math.max(1, matches.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((current - 1 + matches.length) % Math.max(1, matches.length));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(matches[current]);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-surface/60 px-4 pt-[15vh] backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.palette.title}
+        initial={{ opacity: 0, y: -12 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-lg overflow-hidden rounded-2xl border border-ink/10 bg-raised/95 shadow-2xl"
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder={t.palette.placeholder}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-list"
+          aria-activedescendant={
+            matches[current] ? `command-${matches[current].id}` : undefined
+          }
+          className="w-full border-b border-ink/10 bg-transparent px-4 py-3 text-sm outline-none"
+        />
+
+        <ul
+          id="command-list"
+          role="listbox"
+          className="max-h-80 overflow-y-auto py-1"
+        >
+          {matches.map((c, i) => (
+            <li
+              key={c.id}
+              id={`command-${c.id}`}
+              role="option"
+              aria-selected={i === current}
+              onMouseEnter={() => setSelected(i)}
+              onClick={() => run(c)}
+              className={`flex cursor-pointer items-center justify-between gap-3 px-4 py-2 text-sm ${
+                i === current ? "bg-ink/10" : ""
+              }`}
+            >
+              <span className="truncate">{c.label}</span>
+              {c.shortcut && (
+                <kbd className="rounded-md border border-ink/15 px-1.5 py-0.5 text-[10px] text-ink/60">
+                  {formatKey(c.shortcut, t.shortcuts.space)}
+                </kbd>
+              )}
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-4 py-3 text-sm text-ink/50">{t.palette.empty}</li>
+          )}
+        </ul>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  backupFilename,
+  createBackup,
+  downloadFile,
+  historyToCSV,
+  parseBackup,
+  type Backup,
+  type ImportMode,
+} from "@/lib/backup";
+import type { SessionRecord } from "@/lib/history";
+import type { PersistedState } from "@/lib/storage";
+
+type Props = {
+  state: PersistedState;
+  history: SessionRecord[];
+  onImport: (backup: Backup, mode: ImportMode) => void;
+};
+
+export default function DataPanel({ state, history, onImport }: Props) {
+  const { t } = useI18n();
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(
+    null,
+  );
+
+  function exportJSON() {
+    const backup = createBackup(state, history);
+    downloadFile(
+      backupFilename("json"),
+      JSON.stringify(backup, null, 2),
+      "application/json",
+    );
+  }
+
+  function exportCSV() {
+    downloadFile(backupFilename("csv"), historyToCSV(history, t), "text/csv");
+  }
+
+  async function importFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    if (!result.ok) {
+      setMessage({ ok: false, text: t.data.errors[result.error] });
+      return;
+    }
+
+    onImport(result.backup, mode);
+    setMessage({
+      ok: true,
+      text: mode === "merge" ? t.data.merged : t.data.replaced,
+    });
+  }
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <p className="text-sm text-ink/70">{t.data.title}</p>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          onClick={exportJSON}
+          className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition"
+        >
+          {t.data.exportJSON}
+        </button>
+        <button
+          onClick={exportCSV}
+          disabled={!history.some((r) => r.outcome === "completed")}
+          className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition disabled:opacity-30"
+        >
+          {t.data.exportCSV}
+        </button>
+
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition"
+        >
+          {t.data.importJSON}
+        </button>
+        <button
+          onClick={() => setMode((m) => (m === "merge" ? "replace" : "merge"))}
+          className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition"
+        >
+          {t.data.importMode}:{" "}
+          {mode === "merge" ? t.data.merge : t.data.replace}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={importFile}
+          className="hidden"
+        />
+      </div>
+
+      {message && (
+        <p
+          role="status"
+          className={`mt-3 text-xs ${message.ok ? "text-ok" : "text-danger"}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <p className="mt-3 text-xs text-ink/50">{t.data.help}</p>
+    </div>
+  );
+}
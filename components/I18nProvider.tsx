@@ -0,0 +1,32 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from "react";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  type Messages,
+} from "@/lib/i18n";
+
+type I18n = { locale: Locale; t: Messages };
+
+const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  t: getMessages(DEFAULT_LOCALE),
+});
+
+export function I18nProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  const value = useMemo(() => ({ locale, t: getMessages(locale) }), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/** Idioma atual e o catálogo de textos dele. */
+export function useI18n() {
+  return useContext(I18nContext);
+}
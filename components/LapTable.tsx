@@ -0,0 +1,59 @@
+"use client";
+
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatLap } from "@/lib/utils";
+
+type Props = {
+  /** tempo acumulado em cada volta (ms) */
+  laps: number[];
+};
+
+export default function LapTable({ laps }: Props) {
+  const { t } = useI18n();
+  if (!laps.length) return null;
+
+  const rows = laps.map((total, i) => ({
+    n: i + 1,
+    lap: total - (i > 0 ? laps[i - 1] : 0),
+    total,
+  }));
+  const times = rows.map((r) => r.lap);
+  const best = rows.length > 1 ? Math.min(...times) : -1;
+  const worst = rows.length > 1 ? Math.max(...times) : -1;
+
+  return (
+    <div className="mt-6 max-h-64 overflow-y-auto rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <table className="w-full text-sm tabular-nums">
+        <thead>
+          <tr className="text-left text-xs text-ink/60">
+            <th className="pb-2 font-normal">{t.laps.lap}</th>
+            <th className="pb-2 font-normal">{t.laps.time}</th>
+            <th className="pb-2 text-right font-normal">{t.laps.total}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.reverse().map((r) => (
+            <tr key={r.n} className="border-t border-ink/5">
+              <td className="py-1 text-ink/70">{r.n}</td>
+              <td
+                className={`py-1 ${
+                  r.lap === best
+                    ? "text-ok"
+                    : r.lap === worst
+                      ? "text-danger"
+                      : ""
+                }`}
+              >
+                {formatLap(r.lap)}
+              </td>
+              <td className="py-1 text-right text-ink/80">
+                {formatLap(r.total)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import React from "react";
+import type { Politeness } from "@/hooks/useAnnouncer";
+
+/**
+ * Regiões ao vivo, invisíveis na tela: `polite` espera o leitor
+ * terminar a frase; `assertive` interrompe (término do timer).
+ */
+export default function LiveRegion({
+  polite,
+  assertive,
+}: Record<Politeness, string>) {
+  return (
+    <>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {polite}
+      </div>
+      <div className="sr-only" aria-live="assertive" aria-atomic="true">
+        {assertive}
+      </div>
+    </>
+  );
+}
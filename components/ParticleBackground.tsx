@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef } from "react";
+import {
+  applyParticleMessage,
+  createParticleField,
+  type ParticleEffects,
+  type ParticleMessage,
+  type ParticleSignal,
+} from "@/lib/particles";
+import type { ParticleWorkerIn } from "@/lib/particles.worker";
+import type { ParticleMode } from "@/lib/storage";
+import { hexToRgb, particleTints, type Theme } from "@/lib/themes";
+import { getUrgencyLevel } from "@/lib/timer-engine";
+import type { NamedTimer } from "@/lib/timers";
+
+type Props = {
+  mode: ParticleMode;
+  theme: Theme;
+  /** timer em destaque: fase, fim próximo e término mudam o fundo */
+  timer: NamedTimer;
+  now: number;
+  effects: ParticleEffects;
+  /** movimento reduzido: um quadro parado, sem animação */
+  still: boolean;
+  /** desenha num worker com OffscreenCanvas, quando o navegador deixa */
+  offscreen?: boolean;
+};
+
+const rgbOf = (hex: string) => hexToRgb(hex).join(",");
+
+// a pressão anda em degraus para não mandar mensagem a cada tick
+const PRESSURE_STEPS = 20;
+
+type Port = { post: (msg: ParticleMessage) => void; stop: () => void };
+
+function createWorkerPort(canvas: HTMLCanvasElement): Port | null {
+  if (
+    typeof Worker === "undefined" ||
+    typeof canvas.transferControlToOffscreen !== "function"
+  ) {
+    return null;
+  }
+  try {
+    const worker = new Worker(
+      new URL("../lib/particles.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    const offscreen = canvas.transferControlToOffscreen();
+    const init: ParticleWorkerIn = { type: "init", canvas: offscreen };
+    worker.postMessage(init, [offscreen]);
+    return {
+      post: (msg) => worker.postMessage(msg),
+      stop: () => worker.terminate(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function createLocalPort(canvas: HTMLCanvasElement): Port | null {
+  const field = createParticleField(canvas);
+  if (!field) return null;
+  return {
+    post: (msg) => applyParticleMessage(field, msg),
+    stop: () => field.destroy(),
+  };
+}
+
+/**
+ * Fundo de partículas que reage ao ponteiro e ao timer. Para com a aba
+ * escondida e fica parado com `still`.
+ */
+export default function ParticleBackground({
+  mode,
+  theme,
+  timer,
+  now,
+  effects,
+  still,
+  offscreen = true,
+}: Props) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const portRef = useRef<Port | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // o canvas nasce aqui: depois de transferido para o worker ele não
+    // pode ser reaproveitado por uma segunda montagem
+    const canvas = document.createElement("canvas");
+    canvas.className = "h-full w-full";
+    container.appendChild(canvas);
+
+    const port =
+      (offscreen ? createWorkerPort(canvas) : null) ?? createLocalPort(canvas);
+    if (!port) {
+      canvas.remove();
+      return;
+    }
+    portRef.current = port;
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      port.post({
+        type: "resize",
+        width: rect.width,
+        height: rect.height,
+        dpr: Math.max(1, Math.floor(window.devicePixelRatio || 1)),
+      });
+    };
+
+    // o conteúdo fica por cima do canvas: o ponteiro vem da janela
+    const onPointerMove = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      port.post({
+        type: "pointer",
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+        active: true,
+      });
+    };
+    const onPointerOut = (e: PointerEvent) => {
+      if (!e.relatedTarget) {
+        port.post({ type: "pointer", x: 0, y: 0, active: false });
+      }
+    };
+
+    const onVisibility = () => {
+      port.post({
+        type: "running",
+        running: document.visibilityState === "visible",
+      });
+    };
+
+    onVisibility();
+    resize();
+
+    window.addEventListener("resize", resize);
+    window.addEventListener("pointermove", onPointerMove, { passive: true });
+    window.addEventListener("pointerout", onPointerOut);
+    document.addEventListener("visibilitychange", onVisibility);
+
+    return () => {
+      window.removeEventListener("resize", resize);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerout", onPointerOut);
+      document.removeEventListener("visibilitychange", onVisibility);
+      port.stop();
+      portRef.current = null;
+      canvas.remove();
+    };
+  }, [offscreen]);
+
+  useEffect(() => {
+    portRef.current?.post({ type: "still", still });
+  }, [still, offscreen]);
+
+  // trocar repelir/atrair não recria nada
+  useEffect(() => {
+    portRef.current?.post({ type: "mode", mode });
+  }, [mode, offscreen]);
+
+  const rgb = rgbOf(theme.particle);
+  const { physics } = theme;
+  useEffect(() => {
+    portRef.current?.post({ type: "style", color: rgb, physics });
+  }, [rgb, physics, offscreen]);
+
+  const state = timer.timer;
+  const tints = particleTints(theme);
+  const phase = state.mode === "pomodoro" ? state.pomodoro.phase : null;
+  const onBreak = phase === "break" || phase === "longBreak";
+  const tint = effects.phaseColors && onBreak ? rgbOf(tints[phase]) : null;
+  const alert = rgbOf(tints.alert);
+  const pressure = effects.urgency
+    ? Math.round(getUrgencyLevel(state, now) * PRESSURE_STEPS) / PRESSURE_STEPS
+    : 0;
+  const breathing = effects.breathing && onBreak && state.status === "running";
+
+  const signal = useMemo<ParticleSignal>(
+    () => ({ tint, alert, pressure, breathing }),
+    [tint, alert, pressure, breathing],
+  );
+  useEffect(() => {
+    portRef.current?.post({ type: "signal", signal });
+  }, [signal, offscreen]);
+
+  // fogos só num término novo do mesmo timer: carregar o estado ou
+  // trocar de timer não conta
+  const finishSeq = state.lastFinish?.seq ?? null;
+  const seenFinishRef = useRef<{ id: string; seq: number | null } | null>(null);
+  useEffect(() => {
+    const seen = seenFinishRef.current;
+    seenFinishRef.current = { id: timer.id, seq: finishSeq };
+    if (!effects.burst || !seen || seen.id !== timer.id) return;
+    if (finishSeq !== null && finishSeq !== seen.seq) {
+      portRef.current?.post({ type: "burst" });
+    }
+  }, [timer.id, finishSeq, effects.burst]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 h-full w-full"
+      aria-hidden="true"
+    />
+  );
+}
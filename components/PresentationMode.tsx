@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { motion, useReducedMotionConfig } from "framer-motion";
+import { useI18n } from "@/components/I18nProvider";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import type { Urgency } from "@/lib/timer-engine";
+
+type Props = {
+  title: string;
+  /** fase do pomodoro ou modo */
+  label: string;
+  /** alvo / fim previsto */
+  detail: string;
+  display: string;
+  /** 0 a 1; `null` esconde o anel (cronômetro) */
+  progress: number | null;
+  urgency: Urgency;
+  finished: boolean;
+  paused: boolean;
+  onExit: () => void;
+};
+
+const RING_R = 46;
+const RING_LEN = 2 * Math.PI * RING_R;
+
+const COLORS: Record<Urgency | "finished", { ring: string; text: string }> = {
+  normal: { ring: "#38bdf8", text: "text-ink" },
+  warning: { ring: "#fbbf24", text: "text-warn" },
+  critical: { ring: "#fb7185", text: "text-danger" },
+  finished: { ring: "#34d399", text: "text-ok" },
+};
+
+/** Entra em tela cheia; sai com Esc, qualquer tecla ou clique. */
+export function enterFullscreen() {
+  const el = document.documentElement;
+  if (!document.fullscreenElement && el.requestFullscreen) {
+    el.requestFullscreen().catch(() => {
+      // sem tela cheia (iframe, iOS): fica só a sobreposição
+    });
+  }
+}
+
+function exitFullscreen() {
+  if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+}
+
+/** Contagem gigante para telão: sem painéis, só o tempo. */
+export default function PresentationMode({
+  title,
+  label,
+  detail,
+  display,
+  progress,
+  urgency,
+  finished,
+  paused,
+  onExit,
+}: Props) {
+  const { t } = useI18n();
+  // segue o `MotionConfig` da página (preferência do app ou do sistema)
+  const calm = !!useReducedMotionConfig();
+  useWakeLock(true);
+
+  useEffect(() => {
+    const exit = () => {
+      exitFullscreen();
+      onExit();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      exit();
+    };
+    // Esc na tela cheia é do navegador: só chega como saída da tela cheia
+    let wasFullscreen = !!document.fullscreenElement;
+    const onFullscreenChange = () => {
+      if (wasFullscreen && !document.fullscreenElement) onExit();
+      wasFullscreen = !!document.fullscreenElement;
+    };
+    window.addEventListener("keydown", onKeyDown);
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("fullscreenchange", onFullscreenChange);
+    };
+  }, [onExit]);
+
+  const color = COLORS[finished ? "finished" : urgency];
+  const pulse = (finished || urgency === "critical") && !calm;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex cursor-pointer flex-col items-center justify-center bg-surface text-ink"
+      onClick={() => {
+        exitFullscreen();
+        onExit();
+      }}
+    >
+      <p className="text-[min(4vw,5vh)] text-ink/60">{title}</p>
+
+      <div className="relative mt-[2vh] flex aspect-square w-[min(90vw,78vh)] items-center justify-center">
+        {progress !== null && (
+          <svg viewBox="0 0 100 100" className="absolute inset-0 -rotate-90">
+            <circle
+              cx="50"
+              cy="50"
+              r={RING_R}
+              fill="none"
+              style={{ stroke: "rgb(var(--ink) / 0.08)" }}
+              strokeWidth="2.5"
+            />
+            <circle
+              cx="50"
+              cy="50"
+              r={RING_R}
+              fill="none"
+              stroke={color.ring}
+              strokeWidth="2.5"
+              strokeLinecap="round"
+              strokeDasharray={RING_LEN}
+              strokeDashoffset={RING_LEN * (1 - progress)}
+              style={{ transition: "stroke-dashoffset 1s linear, stroke 0.6s" }}
+            />
+          </svg>
+        )}
+
+        <div className="flex flex-col items-center">
+          <p className="text-[min(5vw,6vh)] font-semibold text-ink/80">
+            {label}
+          </p>
+          <motion.p
+            className={`font-bold tabular-nums tracking-tight text-[min(15vw,13vh)] leading-none ${color.text}`}
+            role="timer"
+            aria-label={`${label}: ${display}`}
+            animate={
+              pulse ? { opacity: [1, 0.55, 1] } : { opacity: paused ? 0.5 : 1 }
+            }
+            transition={{
+              duration: 1,
+              repeat: pulse ? Infinity : 0,
+            }}
+          >
+            {display}
+          </motion.p>
+          <p className="mt-[2vh] text-[min(3.5vw,4vh)] tabular-nums text-ink/60">
+            {paused ? t.page.pausedBadge : detail}
+          </p>
+        </div>
+      </div>
+
+      <p className="mt-[2vh] text-xs text-ink/40">{t.presentation.exitHint}</p>
+    </div>
+  );
+}
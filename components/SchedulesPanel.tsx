@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { Messages } from "@/lib/i18n";
+import { describeWeekdays, type RepeatRule } from "@/lib/schedule";
+import type { NamedTimer } from "@/lib/timers";
+import { canonicalZone, formatInZone, listZones } from "@/lib/timezone";
+import { pad2 } from "@/lib/utils";
+
+type Props = {
+  timers: NamedTimer[];
+  onAdd: () => void;
+  onChange: (id: string, repeat: RepeatRule) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+};
+
+function nextLabel(t: NamedTimer, m: Messages) {
+  const rule = t.timer.repeat;
+  if (!rule?.enabled) return m.schedule.disabled;
+  if (t.timer.mode !== "horario") return m.schedule.onlyHorario;
+  if (t.timer.status === "paused") return m.status.paused;
+  const d = new Date(t.timer.targetMs);
+  const local = `${m.schedule.weekdayNames[d.getDay()]} ${pad2(d.getDate())}/${pad2(
+    d.getMonth() + 1,
+  )} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  // horário local e, se o alarme tem fuso, o de lá
+  return m.schedule.next(
+    rule.zone
+      ? `${local} (${formatInZone(t.timer.targetMs, rule.zone).slice(0, 5)} ${rule.zone})`
+      : local,
+  );
+}
+
+export default function SchedulesPanel({
+  timers,
+  onAdd,
+  onChange,
+  onRename,
+  onRemove,
+  onSelect,
+}: Props) {
+  const { t: m } = useI18n();
+  const zones = useMemo(() => listZones(), []);
+  const alarms = timers.filter(
+    (t): t is NamedTimer & { timer: { repeat: RepeatRule } } =>
+      t.timer.repeat !== null,
+  );
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{m.schedule.title}</p>
+        <button
+          onClick={onAdd}
+          className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+        >
+          {m.schedule.add}
+        </button>
+      </div>
+
+      {alarms.length === 0 && (
+        <p className="mt-3 text-xs text-ink/50">{m.schedule.empty}</p>
+      )}
+
+      <datalist id="schedule-zones">
+        {zones.map((z) => (
+          <option key={z} value={z} />
+        ))}
+      </datalist>
+
+      <ul className="mt-3 flex flex-col gap-3">
+        {alarms.map((t) => {
+          const rule = t.timer.repeat;
+          const set = (patch: Partial<RepeatRule>) =>
+            onChange(t.id, { ...rule, ...patch });
+          return (
+            <li key={t.id} className="rounded-xl bg-ink/5 p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  key={t.name}
+                  defaultValue={t.name}
+                  onBlur={(e) => onRename(t.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  aria-label={m.schedule.label}
+                  className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+                />
+                <input
+                  type="time"
+                  value={`${pad2(rule.hh)}:${pad2(rule.mm)}`}
+                  onChange={(e) => {
+                    const [hh, mm] = e.target.value.split(":").map(Number);
+                    if (Number.isNaN(hh) || Number.isNaN(mm)) return;
+                    set({ hh, mm });
+                  }}
+                  aria-label={m.schedule.time}
+                  className="rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm tabular-nums outline-none focus:border-ink/25"
+                />
+                <input
+                  key={rule.zone ?? ""}
+                  defaultValue={rule.zone ?? ""}
+                  list="schedule-zones"
+                  placeholder={m.schedule.localZone}
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    const zone = value ? canonicalZone(value) : null;
+                    if (value && !zone) {
+                      e.target.value = rule.zone ?? "";
+                      return;
+                    }
+                    if ((zone ?? undefined) !== rule.zone) {
+                      set({ zone: zone ?? undefined });
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  aria-label={m.schedule.zone}
+                  className="w-44 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+                />
+                <button
+                  onClick={() => set({ enabled: !rule.enabled })}
+                  aria-pressed={rule.enabled}
+                  className={`rounded-lg px-3 py-1 text-xs transition ${
+                    rule.enabled
+                      ? "bg-emerald-500/20 hover:bg-emerald-500/25"
+                      : "bg-ink/10 hover:bg-ink/15"
+                  }`}
+                >
+                  {rule.enabled ? m.schedule.enabled : m.schedule.disabled}
+                </button>
+                <button
+                  onClick={() => onRemove(t.id)}
+                  disabled={timers.length <= 1}
+                  className="rounded-lg bg-rose-500/20 px-2 py-1 text-xs hover:bg-rose-500/25 transition disabled:opacity-30"
+                  title={m.common.remove}
+                  aria-label={`${m.common.remove}: ${t.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="mt-2 flex flex-wrap items-center gap-1">
+                {m.schedule.weekdayShort.map((label, day) => {
+                  const on = rule.weekdays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      onClick={() =>
+                        set({
+                          weekdays: on
+                            ? rule.weekdays.filter((d) => d !== day)
+                            : [...rule.weekdays, day].sort(),
+                        })
+                      }
+                      title={m.schedule.weekdayNames[day]}
+                      aria-label={m.schedule.weekdayNames[day]}
+                      aria-pressed={on}
+                      className={`h-7 w-7 rounded-full text-xs transition ${
+                        on ? "bg-ink/25" : "bg-ink/5 hover:bg-ink/10"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+                <span className="ml-2 text-xs text-ink/50">
+                  {describeWeekdays(rule.weekdays, m)}
+                </span>
+              </div>
+
+              <button
+                onClick={() => onSelect(t.id)}
+                className="mt-2 text-xs text-ink/60 hover:text-ink/80"
+              >
+                {nextLabel(t, m)}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
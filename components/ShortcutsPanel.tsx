@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  bindShortcut,
+  DEFAULT_SHORTCUTS,
+  formatKey,
+  keyFromEvent,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type Shortcuts,
+} from "@/lib/shortcuts";
+
+type Props = {
+  shortcuts: Shortcuts;
+  onChange: (shortcuts: Shortcuts) => void;
+  /** gravando uma tecla: os atalhos globais precisam ficar quietos */
+  onRecording: (recording: boolean) => void;
+};
+
+export default function ShortcutsPanel({
+  shortcuts,
+  onChange,
+  onRecording,
+}: Props) {
+  const { t } = useI18n();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  function record(action: ShortcutAction | null) {
+    setRecording(action);
+    onRecording(action !== null);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent, action: ShortcutAction) {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape") return record(null);
+    if (e.key === "Backspace" || e.key === "Delete") {
+      onChange({ ...shortcuts, [action]: "" });
+      return record(null);
+    }
+    const key = keyFromEvent(e);
+    if (!key) return;
+    onChange(bindShortcut(shortcuts, action, key));
+    record(null);
+  }
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{t.shortcuts.title}</p>
+        <button
+          onClick={() => onChange({ ...DEFAULT_SHORTCUTS })}
+          className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+        >
+          {t.shortcuts.restore}
+        </button>
+      </div>
+
+      <ul className="mt-3 grid gap-2 md:grid-cols-2">
+        {SHORTCUT_ACTIONS.map((a) => (
+          <li
+            key={a}
+            className="flex items-center justify-between gap-2 text-sm"
+          >
+            <span className="text-ink/80">{t.shortcuts.actions[a]}</span>
+            <button
+              onClick={() => record(recording === a ? null : a)}
+              onKeyDown={recording === a ? (e) => onKeyDown(e, a) : undefined}
+              onBlur={() => recording === a && record(null)}
+              aria-pressed={recording === a}
+              aria-label={`${t.shortcuts.actions[a]}: ${
+                shortcuts[a] ? formatKey(shortcuts[a], t.shortcuts.space) : "—"
+              }`}
+              className={`min-w-20 rounded-lg px-2 py-1 text-xs tabular-nums transition ${
+                recording === a
+                  ? "bg-amber-500/25 text-warn"
+                  : "bg-ink/10 hover:bg-ink/15"
+              }`}
+            >
+              {recording === a
+                ? t.shortcuts.recording
+                : shortcuts[a]
+                  ? formatKey(shortcuts[a], t.shortcuts.space)
+                  : "—"}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className="mt-3 text-xs text-ink/50">{t.shortcuts.help}</p>
+    </div>
+  );
+}
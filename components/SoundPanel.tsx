@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  CUSTOM_PREFIX,
+  DEFAULT_SOUND_SETTINGS,
+  forgetCustomSound,
+  playSound,
+  SOUND_EVENTS,
+  SOUND_PRESETS,
+  type Playback,
+  type SoundId,
+  type SoundSettings,
+} from "@/lib/sound";
+import {
+  deleteSound,
+  listSounds,
+  saveSound,
+  type SoundInfo,
+} from "@/lib/sound-store";
+
+type Props = {
+  settings: SoundSettings;
+  onChange: (patch: Partial<SoundSettings>) => void;
+};
+
+export default function SoundPanel({ settings, onChange }: Props) {
+  const { t } = useI18n();
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const previewRef = useRef<Playback | null>(null);
+  const [sounds, setSounds] = useState<SoundInfo[]>([]);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    listSounds().then((list) => {
+      if (!cancelled) setSounds(list);
+    });
+    return () => {
+      cancelled = true;
+      previewRef.current?.stop();
+    };
+  }, []);
+
+  async function preview(id: SoundId) {
+    previewRef.current?.stop();
+    previewRef.current = await playSound(id, settings.volume);
+  }
+
+  async function upload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const result = await saveSound(file);
+    if (!result.ok) {
+      setMessage({ ok: false, text: t.sound.errors[result.error] });
+      return;
+    }
+    setSounds((list) => [...list, result.sound]);
+    setMessage({ ok: true, text: t.sound.added(result.sound.name) });
+  }
+
+  async function remove(sound: SoundInfo) {
+    await deleteSound(sound.id);
+    forgetCustomSound(sound.id);
+    setSounds((list) => list.filter((s) => s.id !== sound.id));
+
+    // eventos que usavam o som voltam para o padrão
+    const id = `${CUSTOM_PREFIX}${sound.id}`;
+    const patch: Partial<SoundSettings> = {};
+    for (const ev of SOUND_EVENTS) {
+      if (settings[ev] === id) patch[ev] = DEFAULT_SOUND_SETTINGS[ev];
+    }
+    if (Object.keys(patch).length) onChange(patch);
+  }
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <p className="text-sm text-ink/70">{t.sound.title}</p>
+
+      <div className="mt-3 flex items-center gap-3">
+        <label htmlFor="sound-volume" className="text-xs text-ink/60">
+          {t.sound.volume}
+        </label>
+        <input
+          id="sound-volume"
+          type="range"
+          min={0}
+          max={100}
+          value={settings.volume}
+          onChange={(e) => onChange({ volume: Number(e.target.value) })}
+          className="flex-1 accent-sky-300"
+        />
+        <span className="w-10 text-right text-xs tabular-nums text-ink/70">
+          {settings.volume}%
+        </span>
+      </div>
+
+      <div className="mt-3 flex flex-col gap-2">
+        {SOUND_EVENTS.map((ev) => (
+          <div key={ev} className="flex flex-wrap items-center gap-2">
+            <label htmlFor={`sound-${ev}`} className="w-36 text-xs text-ink/60">
+              {t.sound.events[ev]}
+            </label>
+            <select
+              id={`sound-${ev}`}
+              value={settings[ev]}
+              onChange={(e) => onChange({ [ev]: e.target.value as SoundId })}
+              className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-raised px-2 py-1 text-sm outline-none focus:border-ink/25"
+            >
+              {SOUND_PRESETS.map((p) => (
+                <option key={p} value={p}>
+                  {t.sound.presets[p]}
+                </option>
+              ))}
+              {sounds.map((s) => (
+                <option key={s.id} value={`${CUSTOM_PREFIX}${s.id}`}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => preview(settings[ev])}
+              className="rounded-lg bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+            >
+              {t.sound.test}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button
+          onClick={() => onChange({ repeatUntilAck: !settings.repeatUntilAck })}
+          aria-pressed={settings.repeatUntilAck}
+          className={`rounded-xl px-4 py-2 text-sm transition ${
+            settings.repeatUntilAck ? "bg-ink/15" : "bg-ink/10 hover:bg-ink/15"
+          }`}
+        >
+          {t.sound.repeatUntilAck}:{" "}
+          {settings.repeatUntilAck ? t.common.yes : t.common.no}
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="rounded-xl bg-ink/10 px-4 py-2 text-sm hover:bg-ink/15 transition"
+        >
+          {t.sound.upload}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="audio/*"
+          onChange={upload}
+          className="hidden"
+        />
+      </div>
+
+      {sounds.length > 0 && (
+        <ul className="mt-3 flex flex-col gap-1 text-xs">
+          {sounds.map((s) => (
+            <li key={s.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                {s.name}{" "}
+                <span className="text-ink/50">
+                  {(s.size / 1024 / 1024).toFixed(1)} MB
+                </span>
+              </span>
+              <span className="flex gap-1">
+                <button
+                  onClick={() => preview(`${CUSTOM_PREFIX}${s.id}`)}
+                  className="rounded-lg bg-ink/10 px-2 py-1 hover:bg-ink/15 transition"
+                  title={t.sound.listen}
+                  aria-label={`${t.sound.listen}: ${s.name}`}
+                >
+                  ▶
+                </button>
+                <button
+                  onClick={() => remove(s)}
+                  className="rounded-lg bg-rose-500/20 px-2 py-1 hover:bg-rose-500/25 transition"
+                  title={t.common.remove}
+                  aria-label={`${t.common.remove}: ${s.name}`}
+                >
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-xs ${message.ok ? "text-ok" : "text-danger"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <p className="mt-3 text-xs text-ink/50">{t.sound.localOnly}</p>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  dailyStats,
+  streaks,
+  weeklyStats,
+  type SessionRecord,
+} from "@/lib/history";
+import { formatDayMonth, type Messages } from "@/lib/i18n";
+import { formatHMS, pad2 } from "@/lib/utils";
+
+type Props = {
+  records: SessionRecord[];
+  now: number;
+  onClear: () => void;
+};
+
+function sessionLabel(r: SessionRecord, t: Messages) {
+  if (r.mode !== "pomodoro" || !r.phase) return t.mode[r.mode];
+  return t.phase[r.phase];
+}
+
+export default function StatsPanel({ records, now, onClear }: Props) {
+  const { locale, t } = useI18n();
+  // limpar apaga tudo: pede um segundo clique
+  const [confirming, setConfirming] = useState(false);
+  // recalcula no máximo uma vez por minuto
+  const minute = Math.floor(now / 60000);
+  const { days, weeks, streak } = useMemo(() => {
+    const at = minute * 60000;
+    return {
+      days: dailyStats(records, at),
+      weeks: weeklyStats(records, at),
+      streak: streaks(records, at),
+    };
+  }, [records, minute]);
+
+  const maxFocus = Math.max(1, ...days.map((d) => d.focusMin));
+  const recent = records.slice(-5).reverse();
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{t.stats.title}</p>
+        <p className="text-xs text-ink/60">
+          {t.stats.streak(streak.current, streak.best)}
+        </p>
+      </div>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-[2fr_1fr]">
+        <div>
+          <p className="text-xs text-ink/60">{t.stats.focusPerDay}</p>
+          <div className="mt-2 flex h-28 items-end gap-2">
+            {days.map((d) => (
+              <div
+                key={d.date.getTime()}
+                className="flex flex-1 flex-col items-center gap-1"
+                title={t.stats.dayTitle(Math.round(d.focusMin), d.pomodoros)}
+              >
+                <span className="text-[10px] tabular-nums text-ink/60">
+                  {Math.round(d.focusMin)}
+                </span>
+                <div
+                  className="w-full rounded-md bg-sky-400/40"
+                  style={{ height: `${(d.focusMin / maxFocus) * 72}px` }}
+                />
+                <span className="text-[10px] text-ink/50">
+                  {d.date.toLocaleDateString(locale, { weekday: "short" })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs text-ink/60">{t.stats.perWeek}</p>
+          <ul className="mt-2 flex flex-col gap-1 text-sm">
+            {weeks.map((w) => (
+              <li
+                key={w.weekStart.getTime()}
+                className="flex justify-between tabular-nums"
+              >
+                <span className="text-ink/60">
+                  {formatDayMonth(w.weekStart, locale)}
+                </span>
+                <span>{w.pomodoros}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {recent.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-ink/60">{t.stats.recent}</p>
+          <ul className="mt-2 flex flex-col gap-1 text-xs">
+            {recent.map((r) => {
+              const start = new Date(r.startISO);
+              return (
+                <li key={r.id} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    {pad2(start.getHours())}:{pad2(start.getMinutes())} ·{" "}
+                    {r.timerName} · {sessionLabel(r, t)} ·{" "}
+                    <span className="text-ink/50">
+                      {t.stats.outcome[r.outcome]}
+                      {r.snooze
+                        ? t.stats.snooze
+                        : r.extendedSec > 0
+                          ? t.stats.extended(Math.round(r.extendedSec / 60))
+                          : ""}
+                    </span>
+                  </span>
+                  <span className="tabular-nums text-ink/70">
+                    {formatHMS(r.actualSec)} / {formatHMS(r.plannedSec)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center justify-end gap-2">
+        {confirming && records.length > 0 ? (
+          <>
+            <span role="alert" className="text-xs text-ink/70">
+              {t.stats.clearConfirm(records.length)}
+            </span>
+            <button
+              autoFocus
+              onClick={() => setConfirming(false)}
+              className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+            >
+              {t.common.no}
+            </button>
+            <button
+              onClick={() => {
+                setConfirming(false);
+                onClear();
+              }}
+              className="rounded-xl bg-rose-500/20 px-3 py-1 text-xs hover:bg-rose-500/25 transition"
+            >
+              {t.common.yes}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            disabled={records.length === 0}
+            className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition disabled:opacity-30"
+          >
+            {t.stats.clear}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
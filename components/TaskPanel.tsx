@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  createTask,
+  MAX_ESTIMATE,
+  MAX_TASK_TITLE,
+  MAX_TASKS,
+  type Task,
+  type TasksEvent,
+  type TasksState,
+} from "@/lib/tasks";
+import { clamp } from "@/lib/utils";
+
+type Props = {
+  tasks: TasksState;
+  onEvent: (event: TasksEvent) => void;
+};
+
+/** Lista de tarefas; a ativa recebe os pomodoros de trabalho. */
+export default function TaskPanel({ tasks, onEvent }: Props) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState("");
+  const [estimate, setEstimate] = useState(1);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const visible = tasks.tasks.filter((task) => !task.archived);
+  const archived = tasks.tasks.filter((task) => task.archived);
+
+  function add(e: React.FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onEvent({ type: "add", task: createTask(title, estimate) });
+    setTitle("");
+    setEstimate(1);
+  }
+
+  function startRename(task: Task) {
+    setEditingId(task.id);
+    setDraft(task.title);
+  }
+
+  function commitRename() {
+    if (editingId) onEvent({ type: "rename", id: editingId, title: draft });
+    setEditingId(null);
+  }
+
+  const iconButton =
+    "rounded-lg bg-ink/10 px-2 py-1 text-xs hover:bg-ink/15 transition disabled:opacity-30";
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{t.tasks.title}</p>
+        {archived.length > 0 && (
+          <button
+            onClick={() => setShowArchived((v) => !v)}
+            aria-expanded={showArchived}
+            className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+          >
+            {showArchived
+              ? t.tasks.hideArchived
+              : t.tasks.showArchived(archived.length)}
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={add} className="mt-3 flex flex-wrap gap-2">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={MAX_TASK_TITLE}
+          placeholder={t.tasks.newTask}
+          aria-label={t.tasks.newTask}
+          className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+        />
+        <input
+          type="number"
+          min={1}
+          max={MAX_ESTIMATE}
+          value={estimate}
+          onChange={(e) =>
+            setEstimate(clamp(Number(e.target.value) || 1, 1, MAX_ESTIMATE))
+          }
+          aria-label={t.tasks.estimate}
+          title={t.tasks.estimate}
+          className="w-16 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm tabular-nums outline-none focus:border-ink/25"
+        />
+        <button
+          type="submit"
+          disabled={!title.trim() || tasks.tasks.length >= MAX_TASKS}
+          className="rounded-lg bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition disabled:opacity-30"
+        >
+          {t.tasks.add}
+        </button>
+      </form>
+
+      {visible.length === 0 ? (
+        <p className="mt-3 text-xs text-ink/50">{t.tasks.empty}</p>
+      ) : (
+        <ul className="mt-3 flex flex-col gap-2">
+          {visible.map((task, i) => {
+            const active = task.id === tasks.activeId;
+            return (
+              <li
+                key={task.id}
+                className={`flex flex-wrap items-center gap-2 rounded-xl px-3 py-2 ${
+                  active ? "bg-ink/15" : "bg-ink/5"
+                }`}
+              >
+                {editingId === task.id ? (
+                  <input
+                    autoFocus
+                    value={draft}
+                    maxLength={MAX_TASK_TITLE}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    aria-label={t.common.rename}
+                    className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+                  />
+                ) : (
+                  <button
+                    onClick={() =>
+                      onEvent({ type: "select", id: active ? null : task.id })
+                    }
+                    onDoubleClick={() => startRename(task)}
+                    disabled={task.done}
+                    aria-pressed={active}
+                    title={t.tasks.select}
+                    className={`min-w-0 flex-1 truncate text-left text-sm ${
+                      task.done ? "text-ink/40 line-through" : ""
+                    }`}
+                  >
+                    {task.title}
+                  </button>
+                )}
+
+                <span className="flex items-center gap-1">
+                  <button
+                    onClick={() =>
+                      onEvent({
+                        type: "estimate",
+                        id: task.id,
+                        estimate: task.estimate - 1,
+                      })
+                    }
+                    disabled={task.estimate <= 1}
+                    className={iconButton}
+                    title={t.tasks.less}
+                    aria-label={`${t.tasks.less}: ${task.title}`}
+                  >
+                    −
+                  </button>
+                  <span
+                    className={`text-xs tabular-nums ${
+                      task.completed >= task.estimate
+                        ? "text-ok"
+                        : "text-ink/70"
+                    }`}
+                  >
+                    {t.tasks.progress(task.completed, task.estimate)}
+                  </span>
+                  <button
+                    onClick={() =>
+                      onEvent({
+                        type: "estimate",
+                        id: task.id,
+                        estimate: task.estimate + 1,
+                      })
+                    }
+                    disabled={task.estimate >= MAX_ESTIMATE}
+                    className={iconButton}
+                    title={t.tasks.more}
+                    aria-label={`${t.tasks.more}: ${task.title}`}
+                  >
+                    +
+                  </button>
+                </span>
+
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => onEvent({ type: "toggleDone", id: task.id })}
+                    aria-pressed={task.done}
+                    className={`rounded-lg px-2 py-1 text-xs transition ${
+                      task.done
+                        ? "bg-emerald-500/20 hover:bg-emerald-500/25"
+                        : "bg-ink/10 hover:bg-ink/15"
+                    }`}
+                    title={t.tasks.done}
+                    aria-label={`${t.tasks.done}: ${task.title}`}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    onClick={() =>
+                      onEvent({ type: "move", id: task.id, offset: -1 })
+                    }
+                    disabled={i === 0}
+                    className={iconButton}
+                    title={t.common.moveUp}
+                    aria-label={`${t.common.moveUp}: ${task.title}`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() =>
+                      onEvent({ type: "move", id: task.id, offset: 1 })
+                    }
+                    disabled={i === visible.length - 1}
+                    className={iconButton}
+                    title={t.common.moveDown}
+                    aria-label={`${t.common.moveDown}: ${task.title}`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => startRename(task)}
+                    className={iconButton}
+                    title={t.common.rename}
+                    aria-label={`${t.common.rename}: ${task.title}`}
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() =>
+                      onEvent({ type: "archive", id: task.id, archived: true })
+                    }
+                    className={iconButton}
+                    title={t.tasks.archive}
+                    aria-label={`${t.tasks.archive}: ${task.title}`}
+                  >
+                    ⤓
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showArchived && archived.length > 0 && (
+        <ul className="mt-3 flex flex-col gap-1 border-t border-ink/10 pt-3 text-xs">
+          {archived.map((task) => (
+            <li
+              key={task.id}
+              className="flex items-center justify-between gap-2"
+            >
+              <span
+                className={`truncate text-ink/60 ${task.done ? "line-through" : ""}`}
+              >
+                {task.title}{" "}
+                <span className="tabular-nums text-ink/40">
+                  {t.tasks.progress(task.completed, task.estimate)}
+                </span>
+              </span>
+              <span className="flex gap-1">
+                <button
+                  onClick={() =>
+                    onEvent({ type: "archive", id: task.id, archived: false })
+                  }
+                  className="rounded-lg bg-ink/10 px-2 py-1 hover:bg-ink/15 transition"
+                >
+                  {t.tasks.unarchive}
+                </button>
+                <button
+                  onClick={() => onEvent({ type: "remove", id: task.id })}
+                  className="rounded-lg bg-rose-500/20 px-2 py-1 hover:bg-rose-500/25 transition"
+                  title={t.common.remove}
+                  aria-label={`${t.common.remove}: ${task.title}`}
+                >
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
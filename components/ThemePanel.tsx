@@ -0,0 +1,284 @@
+"use client";
+
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  PARTICLE_EFFECTS,
+  type ParticleEffects,
+  type ParticlePhysics,
+} from "@/lib/particles";
+import {
+  BUILTIN_THEMES,
+  cloneTheme,
+  isCustomTheme,
+  MAX_CUSTOM_THEMES,
+  PHYSICS_RANGES,
+  THEME_SCHEMES,
+  themeName,
+  type Theme,
+  type ThemeScheme,
+} from "@/lib/themes";
+
+type ThemePrefs = {
+  themeId: string;
+  customThemes: Theme[];
+  particlesEnabled: boolean;
+  particleEffects: ParticleEffects;
+  reduceMotion: boolean;
+};
+
+type Props = ThemePrefs & {
+  /** tema em uso (já resolvido, com fallback) */
+  theme: Theme;
+  onChange: (patch: Partial<ThemePrefs>) => void;
+};
+
+const PHYSICS_KEYS = Object.keys(PHYSICS_RANGES) as (keyof ParticlePhysics)[];
+
+function Swatch({ theme }: { theme: Theme }) {
+  return (
+    <span
+      className="inline-block h-4 w-4 rounded-full border border-ink/20"
+      style={{
+        background: `linear-gradient(135deg, ${theme.gradients[0]}, ${theme.background} 60%, ${theme.particle})`,
+      }}
+    />
+  );
+}
+
+export default function ThemePanel({
+  themeId,
+  customThemes,
+  particlesEnabled,
+  particleEffects,
+  reduceMotion,
+  theme,
+  onChange,
+}: Props) {
+  const { t } = useI18n();
+  const editable = isCustomTheme(theme);
+
+  function edit(patch: Partial<Theme>) {
+    onChange({
+      customThemes: customThemes.map((c) =>
+        c.id === theme.id ? { ...c, ...patch } : c,
+      ),
+    });
+  }
+
+  function customize() {
+    const copy = cloneTheme(theme, t.theme.newName(customThemes.length + 1));
+    onChange({ customThemes: [...customThemes, copy], themeId: copy.id });
+  }
+
+  function remove() {
+    onChange({
+      customThemes: customThemes.filter((c) => c.id !== theme.id),
+      themeId: BUILTIN_THEMES[0].id,
+    });
+  }
+
+  const colorInput = (
+    label: string,
+    value: string,
+    onInput: (value: string) => void,
+  ) => (
+    <label className="flex items-center gap-2 text-xs text-ink/60">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onInput(e.target.value)}
+        className="h-7 w-9 cursor-pointer rounded border border-ink/10 bg-transparent"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{t.theme.title}</p>
+        <button
+          onClick={() => onChange({ particlesEnabled: !particlesEnabled })}
+          aria-pressed={particlesEnabled}
+          className={`rounded-xl px-3 py-1 text-xs transition ${
+            particlesEnabled ? "bg-ink/15" : "bg-ink/10 hover:bg-ink/15"
+          }`}
+        >
+          {t.theme.particles}:{" "}
+          {particlesEnabled ? t.theme.particlesOn : t.theme.particlesOff}
+        </button>
+      </div>
+
+      {particlesEnabled && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <span className="text-xs text-ink/50">{t.theme.effects}</span>
+          {PARTICLE_EFFECTS.map((key) => (
+            <button
+              key={key}
+              onClick={() =>
+                onChange({
+                  particleEffects: {
+                    ...particleEffects,
+                    [key]: !particleEffects[key],
+                  },
+                })
+              }
+              aria-pressed={particleEffects[key]}
+              className={`rounded-xl px-3 py-1 text-xs transition ${
+                particleEffects[key]
+                  ? "bg-ink/15"
+                  : "bg-ink/5 text-ink/50 hover:bg-ink/10"
+              }`}
+            >
+              {t.theme.effect[key]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {[...BUILTIN_THEMES, ...customThemes].map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ themeId: option.id })}
+            aria-pressed={option.id === themeId}
+            className={`flex items-center gap-2 rounded-xl px-3 py-1.5 text-sm transition ${
+              option.id === themeId ? "bg-ink/15" : "bg-ink/5 hover:bg-ink/10"
+            }`}
+          >
+            <Swatch theme={option} />
+            {themeName(option, t)}
+          </button>
+        ))}
+        <button
+          onClick={customize}
+          disabled={customThemes.length >= MAX_CUSTOM_THEMES}
+          className="rounded-xl bg-ink/10 px-3 py-1.5 text-sm hover:bg-ink/15 transition disabled:opacity-30"
+        >
+          {t.theme.customize}
+        </button>
+      </div>
+
+      {editable && (
+        <div className="mt-4 flex flex-col gap-3 rounded-xl bg-ink/5 p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              key={theme.id}
+              defaultValue={theme.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim().slice(0, 40);
+                if (name) edit({ name });
+                else e.target.value = theme.name;
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              aria-label={t.theme.name}
+              className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+            />
+            <select
+              value={theme.scheme}
+              onChange={(e) => edit({ scheme: e.target.value as ThemeScheme })}
+              aria-label={t.theme.scheme}
+              className="rounded-lg border border-ink/10 bg-raised px-2 py-1 text-sm outline-none focus:border-ink/25"
+            >
+              {THEME_SCHEMES.map((s) => (
+                <option key={s} value={s}>
+                  {t.theme.scheme}: {t.theme.schemes[s]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={remove}
+              className="rounded-lg bg-rose-500/20 px-2 py-1 text-xs hover:bg-rose-500/25 transition"
+              title={t.common.remove}
+              aria-label={t.common.remove}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            {colorInput(t.theme.background, theme.background, (background) =>
+              edit({ background }),
+            )}
+            {theme.gradients.map((hex, i) => (
+              <React.Fragment key={i}>
+                {colorInput(t.theme.gradient(i + 1), hex, (value) => {
+                  const gradients = [...theme.gradients] as Theme["gradients"];
+                  gradients[i] = value;
+                  edit({ gradients });
+                })}
+              </React.Fragment>
+            ))}
+            {colorInput(t.theme.card, theme.card, (card) => edit({ card }))}
+            {colorInput(t.theme.particle, theme.particle, (particle) =>
+              edit({ particle }),
+            )}
+          </div>
+
+          <div className="grid gap-2 md:grid-cols-2">
+            <label className="flex items-center gap-2 text-xs text-ink/60">
+              <span className="w-36">{t.theme.cardOpacity}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={theme.cardOpacity}
+                onChange={(e) => edit({ cardOpacity: Number(e.target.value) })}
+                className="flex-1 accent-sky-300"
+              />
+            </label>
+            {PHYSICS_KEYS.map((key) => {
+              const range = PHYSICS_RANGES[key];
+              return (
+                <label
+                  key={key}
+                  className="flex items-center gap-2 text-xs text-ink/60"
+                >
+                  <span className="w-36">{t.theme.physics[key]}</span>
+                  <input
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={theme.physics[key]}
+                    onChange={(e) =>
+                      edit({
+                        physics: {
+                          ...theme.physics,
+                          [key]: Number(e.target.value),
+                        },
+                      })
+                    }
+                    className="flex-1 accent-sky-300"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-ink/50">{t.theme.help}</p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onChange({ reduceMotion: !reduceMotion })}
+          aria-pressed={reduceMotion}
+          aria-describedby="reduce-motion-help"
+          className={`rounded-xl px-3 py-1 text-xs transition ${
+            reduceMotion ? "bg-ink/15" : "bg-ink/10 hover:bg-ink/15"
+          }`}
+        >
+          {t.theme.reduceMotion}: {reduceMotion ? t.common.yes : t.common.no}
+        </button>
+        <p id="reduce-motion-help" className="text-xs text-ink/50">
+          {t.theme.reduceMotionHelp}
+        </p>
+      </div>
+    </div>
+  );
+}
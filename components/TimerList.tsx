@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { Messages } from "@/lib/i18n";
+import { getElapsedSeconds, getRemainingSeconds } from "@/lib/timer-engine";
+import type { NamedTimer } from "@/lib/timers";
+import { formatHMS } from "@/lib/utils";
+
+type Props = {
+  timers: NamedTimer[];
+  activeId: string;
+  now: number;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+};
+
+function statusLabel(t: NamedTimer, m: Messages) {
+  if (t.timer.status === "finished") return m.status.finished;
+  if (t.timer.status === "paused") return m.status.paused;
+  if (t.timer.status === "ready") return m.status.ready;
+  return m.mode[t.timer.mode];
+}
+
+export default function TimerList({
+  timers,
+  activeId,
+  now,
+  onSelect,
+  onAdd,
+  onRemove,
+  onRename,
+  onMove,
+}: Props) {
+  const { t: m } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  function startRename(t: NamedTimer) {
+    setEditingId(t.id);
+    setDraft(t.name);
+  }
+
+  function commitRename() {
+    if (editingId) onRename(editingId, draft);
+    setEditingId(null);
+  }
+
+  return (
+    <div className="rounded-2xl border border-ink/10 bg-ink/5 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-ink/70">{m.timers.title}</p>
+        <button
+          onClick={onAdd}
+          className="rounded-xl bg-ink/10 px-3 py-1 text-xs hover:bg-ink/15 transition"
+        >
+          {m.timers.add}
+        </button>
+      </div>
+
+      <ul className="mt-3 flex flex-col gap-2">
+        {timers.map((t, i) => (
+          <li
+            key={t.id}
+            className={`flex items-center gap-2 rounded-xl px-3 py-2 ${
+              t.id === activeId ? "bg-ink/15" : "bg-ink/5"
+            }`}
+          >
+            {editingId === t.id ? (
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                aria-label={m.common.rename}
+                className="min-w-0 flex-1 rounded-lg border border-ink/10 bg-ink/5 px-2 py-1 text-sm outline-none focus:border-ink/25"
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(t.id)}
+                onDoubleClick={() => startRename(t)}
+                aria-current={t.id === activeId ? "true" : undefined}
+                className="min-w-0 flex-1 truncate text-left text-sm"
+              >
+                {t.name}
+                <span className="ml-2 text-xs text-ink/50">
+                  {statusLabel(t, m)}
+                </span>
+              </button>
+            )}
+
+            <span className="text-sm tabular-nums text-ink/80">
+              {formatHMS(
+                t.timer.mode === "cronometro"
+                  ? getElapsedSeconds(t.timer, now)
+                  : getRemainingSeconds(t.timer, now),
+              )}
+            </span>
+
+            <div className="flex gap-1">
+              <button
+                onClick={() => onMove(t.id, -1)}
+                disabled={i === 0}
+                className="rounded-lg bg-ink/10 px-2 py-1 text-xs hover:bg-ink/15 transition disabled:opacity-30"
+                title={m.common.moveUp}
+                aria-label={`${m.common.moveUp}: ${t.name}`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => onMove(t.id, 1)}
+                disabled={i === timers.length - 1}
+                className="rounded-lg bg-ink/10 px-2 py-1 text-xs hover:bg-ink/15 transition disabled:opacity-30"
+                title={m.common.moveDown}
+                aria-label={`${m.common.moveDown}: ${t.name}`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => startRename(t)}
+                className="rounded-lg bg-ink/10 px-2 py-1 text-xs hover:bg-ink/15 transition"
+                title={m.common.rename}
+                aria-label={`${m.common.rename}: ${t.name}`}
+              >
+                ✎
+              </button>
+              <button
+                onClick={() => onRemove(t.id)}
+                disabled={timers.length <= 1}
+                className="rounded-lg bg-rose-500/20 px-2 py-1 text-xs hover:bg-rose-500/25 transition disabled:opacity-30"
+                title={m.common.remove}
+                aria-label={`${m.common.remove}: ${t.name}`}
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ringUntilAck, type SoundId } from "@/lib/sound";
+import type { SharedAlarm } from "@/lib/tab-sync";
+
+/**
+ * Alarme tocando até alguém dispensar. `show` só mostra o aviso (a
+ * líder toca em outra aba); `ring` também toca o som aqui.
+ */
+export function useAlarm() {
+  const [alarm, setAlarm] = useState<SharedAlarm | null>(null);
+  const ringRef = useRef<{ stop: () => void } | null>(null);
+
+  /** Cala o alarme só nesta aba. */
+  const silence = useCallback(() => {
+    ringRef.current?.stop();
+    ringRef.current = null;
+    setAlarm(null);
+  }, []);
+
+  useEffect(() => silence, [silence]);
+
+  const ring = useCallback(
+    (shared: SharedAlarm, sound: SoundId, volume: number) => {
+      ringRef.current?.stop();
+      ringRef.current = ringUntilAck(sound, volume);
+      setAlarm(shared);
+    },
+    [],
+  );
+
+  return { alarm, show: setAlarm, ring, silence };
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Messages } from "@/lib/i18n";
+import { getRemainingSeconds } from "@/lib/timer-engine";
+import type { NamedTimer } from "@/lib/timers";
+
+export type Politeness = "polite" | "assertive";
+
+// avisos de tempo restante, em segundos (do menor para o maior)
+const MILESTONES_S = [10, 60, 300];
+
+/**
+ * Textos das regiões ao vivo do leitor de tela. A mesma frase duas
+ * vezes seguidas ganha um espaço no fim, senão o leitor não repete.
+ */
+export function useAnnouncer() {
+  const [messages, setMessages] = useState<Record<Politeness, string>>({
+    polite: "",
+    assertive: "",
+  });
+
+  const announce = useCallback(
+    (text: string, politeness: Politeness = "polite") => {
+      setMessages((prev) => ({
+        ...prev,
+        [politeness]: prev[politeness] === text ? `${text} ` : text,
+      }));
+    },
+    [],
+  );
+
+  return { messages, announce };
+}
+
+/**
+ * Anuncia as mudanças do timer em destaque: início, pausa, próxima
+ * fase e alguns marcos do tempo restante (nunca a cada segundo). O
+ * término fica com o aviso de fim, que vale para todos os timers.
+ */
+export function useTimerAnnouncements(
+  { id, name, timer }: NamedTimer,
+  now: number,
+  t: Messages,
+  announce: (text: string, politeness?: Politeness) => void,
+) {
+  const { mode, status } = timer;
+  const { phase } = timer.pomodoro;
+  const pomodoro = mode === "pomodoro";
+  const label = pomodoro ? t.phase[phase] : name;
+
+  const lastRef = useRef<{ id: string; key: string; status: string } | null>(
+    null,
+  );
+  useEffect(() => {
+    const key = `${mode}:${phase}:${status}`;
+    const last = lastRef.current;
+    lastRef.current = { id, key, status };
+    // carregar o estado ou trocar de timer não é novidade
+    if (!last || last.id !== id || last.key === key) return;
+
+    if (status === "running") {
+      announce(
+        last.status === "paused"
+          ? t.a11y.resumed(label)
+          : t.a11y.started(label),
+      );
+    } else if (status === "paused") {
+      announce(t.a11y.paused(label));
+    } else if (status === "ready" && pomodoro) {
+      announce(t.a11y.ready(t.phase[phase]));
+    }
+  }, [id, mode, phase, status, pomodoro, label, t, announce]);
+
+  const remaining = getRemainingSeconds(timer, now);
+  // `Infinity`: rodando, ainda longe do primeiro marco
+  const milestone =
+    mode !== "cronometro" && status === "running"
+      ? (MILESTONES_S.find((s) => remaining <= s) ?? Infinity)
+      : null;
+
+  const milestoneRef = useRef<{ id: string; at: number | null } | null>(null);
+  useEffect(() => {
+    const last = milestoneRef.current;
+    milestoneRef.current = { id, at: milestone };
+    if (!last || last.id !== id || last.at === null || milestone === null) {
+      return;
+    }
+    if (milestone < last.at) announce(t.a11y.remaining(milestone));
+  }, [id, milestone, t, announce]);
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useAlarm } from "@/hooks/useAlarm";
+import { usePersistence } from "@/hooks/usePersistence";
+import { useTabSync } from "@/hooks/useTabSync";
+import { useTimers, useTimerTicks } from "@/hooks/useTimers";
+import { applyBackup, type Backup, type ImportMode } from "@/lib/backup";
+import type { SessionRecord } from "@/lib/history";
+import type { SoundId } from "@/lib/sound";
+import {
+  DEFAULT_PREFS,
+  defaultTimeStr,
+  prefsFromPersisted,
+  timersFromPersisted,
+  toPersisted,
+  type PersistedState,
+  type SharedPrefs,
+} from "@/lib/storage";
+import type { SharedAlarm, TabMessage } from "@/lib/tab-sync";
+import {
+  EMPTY_TASKS,
+  tasksReducer,
+  type TasksEvent,
+  type TasksState,
+} from "@/lib/tasks";
+import {
+  createInitialTimers,
+  type TimersCommand,
+  type TimersEvent,
+} from "@/lib/timers";
+
+/**
+ * Estado do app inteiro: timers, preferências, tarefas, histórico e o
+ * alarme tocando. Fica salvo no localStorage e cada mudança feita aqui
+ * (`share`, `shareTask`, `updatePrefs`...) é repassada às outras abas.
+ */
+export function useAppState(active: boolean) {
+  const engine = useTimers(createInitialTimers);
+  const { state: timers, now, send, receive } = engine;
+  const [prefs, setPrefs] = useState<SharedPrefs>(DEFAULT_PREFS);
+  const [timeStr, setTimeStr] = useState(defaultTimeStr);
+  const [tasks, setTasks] = useState<TasksState>(EMPTY_TASKS);
+  const [history, setHistory] = useState<SessionRecord[]>([]);
+  // o som só toca na líder; as outras só mostram o aviso
+  const { alarm, show, ring, silence } = useAlarm();
+
+  const applyPersisted = useCallback(
+    (s: PersistedState) => {
+      setPrefs(prefsFromPersisted(s));
+      setTimeStr(s.timeStr);
+      setTasks({ tasks: s.tasks, activeId: s.activeTaskId });
+
+      const loaded = timersFromPersisted(s);
+      // o que venceu enquanto o app estava fechado fecha no próximo
+      // tick da líder
+      if (loaded) send({ type: "hydrate", state: loaded });
+    },
+    [send],
+  );
+
+  const persisted = useMemo(
+    () => toPersisted(prefs, timeStr, timers, tasks),
+    [prefs, timeStr, timers, tasks],
+  );
+
+  usePersistence(active, {
+    persisted,
+    history,
+    apply: applyPersisted,
+    setHistory,
+  });
+
+  // outras abas: eventos dos timers e preferências
+  const onTabMessage = useCallback(
+    (msg: TabMessage) => {
+      if (msg.type === "timers") {
+        receive(msg.event);
+      } else if (msg.type === "tasks") {
+        setTasks((s) => tasksReducer(s, msg.event));
+      } else if (msg.type === "alarm") {
+        if (msg.alarm) show(msg.alarm);
+        else silence();
+      } else if (msg.type === "prefs") {
+        setPrefs(msg.prefs);
+      } else {
+        applyPersisted(msg.state);
+      }
+    },
+    [receive, applyPersisted, show, silence],
+  );
+  const { leader, post } = useTabSync(active, onTabMessage);
+
+  const shareTick = useCallback(
+    (event: TimersEvent) => post({ type: "timers", event }),
+    [post],
+  );
+  useTimerTicks(engine, { active, leader, onTick: shareTick });
+
+  /** Comando do usuário: aplica aqui e repassa às outras abas. */
+  const share = useCallback(
+    (command: TimersCommand) => {
+      post({ type: "timers", event: send(command) });
+    },
+    [send, post],
+  );
+
+  const shareTask = useCallback(
+    (event: TasksEvent) => {
+      setTasks((s) => tasksReducer(s, event));
+      post({ type: "tasks", event });
+    },
+    [post],
+  );
+
+  const updatePrefs = useCallback(
+    (patch: Partial<SharedPrefs>) => {
+      const next = { ...prefs, ...patch };
+      setPrefs(next);
+      post({ type: "prefs", prefs: next });
+    },
+    [prefs, post],
+  );
+
+  /** Toca aqui até alguém dispensar, em qualquer aba. */
+  const raiseAlarm = useCallback(
+    (shared: SharedAlarm, sound: SoundId, volume: number) => {
+      ring(shared, sound, volume);
+      post({ type: "alarm", alarm: shared });
+    },
+    [ring, post],
+  );
+
+  /** Dispensa o alarme aqui e nas outras abas. */
+  const stopRinging = useCallback(() => {
+    silence();
+    post({ type: "alarm", alarm: null });
+  }, [silence, post]);
+
+  const importBackup = useCallback(
+    (backup: Backup, mode: ImportMode) => {
+      const next = applyBackup({ state: persisted, history }, backup, mode);
+      applyPersisted(next.state);
+      post({ type: "replace", state: next.state });
+      setHistory(next.history);
+    },
+    [persisted, history, applyPersisted, post],
+  );
+
+  return {
+    leader,
+    timers,
+    now,
+    send,
+    share,
+    prefs,
+    updatePrefs,
+    timeStr,
+    setTimeStr,
+    tasks,
+    shareTask,
+    history,
+    setHistory,
+    persisted,
+    importBackup,
+    alarm,
+    raiseAlarm,
+    stopRinging,
+  };
+}
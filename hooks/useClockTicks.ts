@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { ClockWorkerIn, ClockWorkerOut } from "@/lib/clock.worker";
+import { createTicker } from "@/lib/ticker";
+
+type Port = { setDeadlines: (deadlines: number[]) => void; stop: () => void };
+
+function createWorkerPort(onTick: () => void): Port | null {
+  if (typeof Worker === "undefined") return null;
+  try {
+    const worker = new Worker(
+      new URL("../lib/clock.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.onmessage = (e: MessageEvent<ClockWorkerOut>) => {
+      if (e.data.type === "tick") onTick();
+    };
+    const post = (msg: ClockWorkerIn) => worker.postMessage(msg);
+    return {
+      setDeadlines: (deadlines) => post({ type: "deadlines", deadlines }),
+      stop: () => {
+        post({ type: "stop" });
+        worker.terminate();
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chama `onTick` na virada de cada segundo e exatamente nos `deadlines`.
+ * Usa um Worker quando dá (segue pontual com a aba escondida) e cai
+ * para a thread principal quando não.
+ */
+export function useClockTicks(
+  onTick: () => void,
+  deadlines: number[],
+  active: boolean,
+) {
+  const onTickRef = useRef(onTick);
+  const portRef = useRef<Port | null>(null);
+
+  useEffect(() => {
+    onTickRef.current = onTick;
+  }, [onTick]);
+
+  useEffect(() => {
+    if (!active) return;
+    const tick = () => onTickRef.current();
+    const port = createWorkerPort(tick) ?? createTicker(tick);
+    portRef.current = port;
+
+    // ao voltar para a aba (ou acordar a máquina), atualiza na hora
+    const onVisible = () => {
+      if (document.visibilityState === "visible") tick();
+    };
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisible);
+      port.stop();
+      portRef.current = null;
+    };
+  }, [active]);
+
+  const key = deadlines.join(",");
+  useEffect(() => {
+    if (!active) return;
+    portRef.current?.setDeadlines(key ? key.split(",").map(Number) : []);
+  }, [active, key]);
+}
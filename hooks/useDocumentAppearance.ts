@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect } from "react";
+import type { Locale } from "@/lib/i18n";
+import { themeVars, type Theme } from "@/lib/themes";
+
+/** Idioma, cores do tema e "menos movimento" valem para o documento todo. */
+export function useDocumentAppearance(
+  lang: Locale,
+  theme: Theme,
+  reduceMotion: boolean,
+) {
+  useEffect(() => {
+    document.documentElement.lang = lang;
+  }, [lang]);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("reduce-motion", reduceMotion);
+  }, [reduceMotion]);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    for (const [name, value] of Object.entries(themeVars(theme))) {
+      root.style.setProperty(name, value);
+    }
+    root.style.colorScheme = theme.scheme === "light" ? "light" : "dark";
+  }, [theme]);
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { Politeness } from "@/hooks/useAnnouncer";
+import { useServiceWorker, type PendingAction } from "@/hooks/useServiceWorker";
+import type { Messages } from "@/lib/i18n";
+import {
+  canNotify,
+  finishNotice,
+  notify,
+  scheduledNotices,
+  snoozeMinutes,
+} from "@/lib/notifications";
+import {
+  playSound,
+  soundEventFor,
+  unlockAudio,
+  type SoundId,
+} from "@/lib/sound";
+import type { SharedPrefs } from "@/lib/storage";
+import type { SharedAlarm } from "@/lib/tab-sync";
+import { earnedPomodoro, type Task, type TasksEvent } from "@/lib/tasks";
+import type { TimerCommand } from "@/lib/timer-engine";
+import type { NamedTimer, TimersCommand } from "@/lib/timers";
+
+export type FinishEffects = {
+  active: boolean;
+  timers: NamedTimer[];
+  /** `null` enquanto a eleição não respondeu */
+  leader: boolean | null;
+  prefs: SharedPrefs;
+  t: Messages;
+  activeTask: Task | null;
+  announce: (text: string, politeness?: Politeness) => void;
+  share: (command: TimersCommand) => void;
+  shareTask: (event: TasksEvent) => void;
+  raiseAlarm: (alarm: SharedAlarm, sound: SoundId, volume: number) => void;
+  stopRinging: () => void;
+};
+
+/**
+ * O que acontece quando um timer termina: o leitor de tela avisa em
+ * qualquer aba; som, notificação e o pomodoro creditado na tarefa só
+ * na líder, que também agenda no service worker os avisos de quem
+ * ainda está rodando.
+ */
+export function useFinishEffects({
+  active,
+  timers,
+  leader,
+  prefs,
+  t,
+  activeTask,
+  announce,
+  share,
+  shareTask,
+  raiseAlarm,
+  stopRinging,
+}: FinishEffects) {
+  const { soundEnabled, sound, notificationsEnabled, extendOptions } = prefs;
+  const taskTitle = activeTask?.title ?? null;
+  const announcedSeqRef = useRef(new Map<string, number>());
+  const lastFinishSeqRef = useRef(new Map<string, number>());
+
+  // o navegador só libera áudio depois de um gesto do usuário
+  useEffect(() => {
+    window.addEventListener("pointerdown", unlockAudio);
+    window.addEventListener("keydown", unlockAudio);
+    return () => {
+      window.removeEventListener("pointerdown", unlockAudio);
+      window.removeEventListener("keydown", unlockAudio);
+    };
+  }, []);
+
+  // cada timer avisa por conta própria
+  useEffect(() => {
+    for (const { id, name, timer } of timers) {
+      const done = timer.lastFinish;
+      if (!done) continue;
+      if (announcedSeqRef.current.get(id) !== done.seq) {
+        announcedSeqRef.current.set(id, done.seq);
+        announce(t.a11y.finished(name), "assertive");
+      }
+      // sem eleição ainda, fica pendente: pode ser esta aba a líder
+      if (leader === null) continue;
+      if (lastFinishSeqRef.current.get(id) === done.seq) continue;
+      lastFinishSeqRef.current.set(id, done.seq);
+      if (!leader) continue;
+
+      const notice = finishNotice(
+        { id, name },
+        timer,
+        t,
+        extendOptions,
+        taskTitle,
+      );
+      if (activeTask && earnedPomodoro(timer)) {
+        shareTask({ type: "credit", id: activeTask.id });
+      }
+      const ev = soundEventFor(done);
+      if (soundEnabled && ev) {
+        if (sound.repeatUntilAck && notice) {
+          raiseAlarm(
+            {
+              timerId: id,
+              title: notice.title,
+              body: notice.body,
+              finished: done,
+            },
+            sound[ev],
+            sound.volume,
+          );
+        } else {
+          void playSound(sound[ev], sound.volume);
+        }
+      }
+
+      if (notificationsEnabled && notice) {
+        notify(notice.title, notice.body, notice);
+      }
+    }
+  }, [
+    timers,
+    soundEnabled,
+    sound,
+    notificationsEnabled,
+    extendOptions,
+    leader,
+    t,
+    announce,
+    activeTask,
+    taskTitle,
+    shareTask,
+    raiseAlarm,
+  ]);
+
+  const notices = useMemo(
+    () =>
+      active && notificationsEnabled && canNotify()
+        ? timers.flatMap((timer) =>
+            scheduledNotices(timer, t, extendOptions, taskTitle),
+          )
+        : [],
+    [active, notificationsEnabled, timers, extendOptions, t, taskTitle],
+  );
+
+  const applyNoticeActions = useCallback(
+    (actions: PendingAction[]) => {
+      for (const a of actions) {
+        const minutes = snoozeMinutes(a.action);
+        const command: TimerCommand =
+          minutes !== null
+            ? { type: "snooze", minutes, from: a.at, finished: a.finished }
+            : { type: "startNext" };
+        share({ type: "timer", id: a.timerId, command });
+      }
+      // respondeu pela notificação: o alarme já foi atendido
+      if (actions.length) stopRinging();
+    },
+    [share, stopRinging],
+  );
+
+  useServiceWorker(active && leader === true, notices, applyNoticeActions);
+}
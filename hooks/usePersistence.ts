@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  HISTORY_KEY,
+  loadHistory,
+  saveHistory,
+  type SessionRecord,
+} from "@/lib/history";
+import { loadState, saveState, type PersistedState } from "@/lib/storage";
+
+/**
+ * Carrega o estado e o histórico do localStorage ao montar (o estado
+ * passa por `apply`) e salva a cada mudança. O histórico só é gravado
+ * pela líder; as outras abas recarregam quando ele muda.
+ */
+export function usePersistence(
+  active: boolean,
+  {
+    persisted,
+    history,
+    apply,
+    setHistory,
+  }: {
+    persisted: PersistedState;
+    history: SessionRecord[];
+    apply: (s: PersistedState) => void;
+    setHistory: (history: SessionRecord[]) => void;
+  },
+) {
+  // só salva depois de carregar (senão uma aba nova apagaria as outras)
+  const loadedRef = useRef(false);
+  const applyRef = useRef(apply);
+
+  useEffect(() => {
+    applyRef.current = apply;
+  }, [apply]);
+
+  // declarados antes do carregamento: na montagem rodam primeiro e não
+  // salvam nada; depois, só com o estado já carregado
+  useEffect(() => {
+    if (loadedRef.current) saveState(persisted);
+  }, [persisted]);
+
+  useEffect(() => {
+    if (loadedRef.current) saveHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    if (!active || loadedRef.current) return;
+    loadedRef.current = true;
+    setHistory(loadHistory());
+
+    const s = loadState();
+    if (s) applyRef.current(s);
+  }, [active, setHistory]);
+
+  useEffect(() => {
+    if (!active) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === HISTORY_KEY) setHistory(loadHistory());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [active, setHistory]);
+}
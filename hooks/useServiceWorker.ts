@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Notice, NoticeAction, NoticeData } from "@/lib/notifications";
+import { canPush, sendPushSchedule } from "@/lib/push";
+
+/** Clique num botão de notificação, guardado pelo service worker. */
+export type PendingAction = {
+  action: NoticeAction;
+  timerId: string;
+  finished: NoticeData["finished"];
+  /** quando o usuário clicou */
+  at: number;
+};
+
+// protocolo descrito em public/sw.js
+type SwIn = { type: "schedule"; notices: Notice[] } | { type: "takeActions" };
+type SwOut = { type: "actions" };
+
+function post(worker: ServiceWorker, msg: SwIn, transfer: Transferable[] = []) {
+  worker.postMessage(msg, transfer);
+}
+
+function takeActions(worker: ServiceWorker): Promise<PendingAction[]> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (
+      e: MessageEvent<{ actions?: PendingAction[] }>,
+    ) => resolve(e.data.actions ?? []);
+    post(worker, { type: "takeActions" }, [channel.port2]);
+  });
+}
+
+/**
+ * Registra o service worker, mantém a agenda de avisos dele igual a
+ * `notices` e entrega as ações clicadas nas notificações (inclusive as
+ * feitas com a página fechada, assim que ela abre). Com push
+ * configurado, a mesma agenda vai para o servidor, que acorda o worker
+ * na hora mesmo com o navegador sem o app aberto.
+ */
+export function useServiceWorker(
+  active: boolean,
+  notices: Notice[],
+  onActions: (actions: PendingAction[]) => void,
+) {
+  const onActionsRef = useRef(onActions);
+  const [reg, setReg] = useState<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    onActionsRef.current = onActions;
+  }, [onActions]);
+
+  useEffect(() => {
+    if (!active || !("serviceWorker" in navigator)) return;
+    const sw = navigator.serviceWorker;
+    let cancelled = false;
+
+    const pull = async () => {
+      const reg = await sw.ready;
+      if (cancelled || !reg.active) return;
+      const actions = await takeActions(reg.active);
+      if (!cancelled && actions.length) onActionsRef.current(actions);
+    };
+
+    const onMessage = (e: MessageEvent<SwOut>) => {
+      if (e.data?.type === "actions") void pull();
+    };
+    sw.addEventListener("message", onMessage);
+
+    sw.register("/sw.js").catch(() => {
+      // sem service worker: avisos só com a página aberta
+    });
+    sw.ready.then((reg) => {
+      if (!cancelled) setReg(reg);
+    });
+    void pull();
+
+    return () => {
+      cancelled = true;
+      sw.removeEventListener("message", onMessage);
+    };
+  }, [active]);
+
+  const key = JSON.stringify(notices);
+  useEffect(() => {
+    if (!reg?.active) return;
+    const notices: Notice[] = JSON.parse(key);
+    post(reg.active, { type: "schedule", notices });
+    if (!canPush()) return;
+    sendPushSchedule(reg, notices).catch(() => {
+      // sem permissão ou servidor sem push: fica a agenda local
+    });
+  }, [reg, key]);
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  appendHistory,
+  recordFromSession,
+  type SessionRecord,
+} from "@/lib/history";
+import type { TimerSessionEnd } from "@/lib/timer-engine";
+import type { NamedTimer } from "@/lib/timers";
+
+/**
+ * Grava no histórico as sessões encerradas. Só a líder grava; a
+ * seguidora apenas marca como vistas as que a líder já gravou.
+ */
+export function useSessionRecorder(
+  timers: NamedTimer[],
+  leader: boolean | null,
+  setHistory: (update: (h: SessionRecord[]) => SessionRecord[]) => void,
+) {
+  const recordedRef = useRef(new WeakSet<TimerSessionEnd>());
+
+  useEffect(() => {
+    if (leader === null) return;
+    const ended: SessionRecord[] = [];
+    for (const t of timers) {
+      for (const done of t.timer.endedSessions) {
+        if (recordedRef.current.has(done)) continue;
+        recordedRef.current.add(done);
+        if (leader) ended.push(recordFromSession(t, done));
+      }
+    }
+    if (!ended.length) return;
+    setHistory((h) =>
+      ended.reduce((acc, r) => appendHistory(acc, r, Date.now()), h),
+    );
+  }, [timers, leader, setHistory]);
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  actionForKey,
+  isTypingTarget,
+  keyFromEvent,
+  type ShortcutAction,
+  type Shortcuts,
+} from "@/lib/shortcuts";
+
+/**
+ * Atalhos globais da página. Ctrl/Cmd+K abre a paleta mesmo digitando;
+ * os demais ficam quietos em campos de texto e com `enabled` falso
+ * (paleta aberta, tecla sendo gravada).
+ */
+export function useShortcuts(
+  enabled: boolean,
+  shortcuts: Shortcuts,
+  onAction: (action: ShortcutAction) => void,
+  onPalette: () => void,
+) {
+  const handlersRef = useRef({ shortcuts, onAction, onPalette });
+
+  useEffect(() => {
+    handlersRef.current = { shortcuts, onAction, onPalette };
+  }, [shortcuts, onAction, onPalette]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const { shortcuts, onAction, onPalette } = handlersRef.current;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        onPalette();
+        return;
+      }
+      if (e.repeat || e.defaultPrevented || isTypingTarget(e.target)) return;
+
+      const key = keyFromEvent(e);
+      const action = key && actionForKey(shortcuts, key);
+      if (!action) return;
+      // espaço num botão focado também o "clicaria"
+      e.preventDefault();
+      onAction(action);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect } from "react";
+import { drawPieFavicon, setFavicon } from "@/lib/favicon";
+import type { Urgency } from "@/lib/timer-engine";
+
+const COLORS: Record<Urgency | "finished", string> = {
+  normal: "#38bdf8",
+  warning: "#fbbf24",
+  critical: "#fb7185",
+  finished: "#34d399",
+};
+// passos da pizza: não vale redesenhar por uma diferença invisível
+const PIE_STEPS = 48;
+
+export type TabIndicator = {
+  title: string;
+  /** fração que falta, de 0 a 1; `null` volta ao ícone do app */
+  remaining: number | null;
+  urgency: Urgency | "finished";
+};
+
+/** Título da aba e favicon acompanham a contagem. */
+export function useTabIndicator(
+  active: boolean,
+  { title, remaining, urgency }: TabIndicator,
+) {
+  // antes dos outros efeitos, para guardar o título original
+  useEffect(() => {
+    if (!active) return;
+    const original = document.title;
+    return () => {
+      document.title = original;
+      setFavicon(null);
+    };
+  }, [active]);
+
+  useEffect(() => {
+    if (!active) return;
+    document.title = title;
+  }, [active, title]);
+
+  const step = remaining === null ? null : Math.ceil(remaining * PIE_STEPS);
+  useEffect(() => {
+    if (!active) return;
+    setFavicon(
+      step === null ? null : drawPieFavicon(step / PIE_STEPS, COLORS[urgency]),
+    );
+  }, [active, step, urgency]);
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createTabId,
+  electLeader,
+  openTabChannel,
+  type TabChannel,
+  type TabMessage,
+} from "@/lib/tab-sync";
+
+/**
+ * Canal entre as abas abertas do app, mais a eleição de líder.
+ * `post` não chega na própria aba; `leader` fica `null` até a eleição
+ * responder.
+ */
+export function useTabSync(
+  active: boolean,
+  onMessage: (msg: TabMessage) => void,
+) {
+  const onMessageRef = useRef(onMessage);
+  const channelRef = useRef<TabChannel | null>(null);
+  const [leader, setLeader] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!active) return;
+    const tabId = createTabId();
+    const channel = openTabChannel(tabId, (msg) => onMessageRef.current(msg));
+    channelRef.current = channel;
+    const stopElection = electLeader(tabId, setLeader);
+    return () => {
+      stopElection();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [active]);
+
+  const post = useCallback((msg: TabMessage) => {
+    channelRef.current?.post(msg);
+  }, []);
+
+  return { leader, post };
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import type { Command } from "@/components/CommandPalette";
+import { useShortcuts } from "@/hooks/useShortcuts";
+import { LOCALES, type Messages } from "@/lib/i18n";
+import { notify, requestNotificationPermission } from "@/lib/notifications";
+import { DEFAULT_REPEAT } from "@/lib/schedule";
+import { SHORTCUT_ACTIONS, type ShortcutAction } from "@/lib/shortcuts";
+import type { SharedPrefs } from "@/lib/storage";
+import { BUILTIN_THEMES, themeName } from "@/lib/themes";
+import { parseTimeInput } from "@/lib/time-input";
+import type { PomodoroPhase, TimerCommand } from "@/lib/timer-engine";
+import {
+  createAlarmTimer,
+  createDefaultTimer,
+  type NamedTimer,
+  type TimersCommand,
+} from "@/lib/timers";
+
+export type TimerCommands = {
+  /** atalhos de teclado ligados */
+  enabled: boolean;
+  active: NamedTimer;
+  timers: NamedTimer[];
+  timeStr: string;
+  prefs: SharedPrefs;
+  t: Messages;
+  send: (command: TimersCommand) => void;
+  share: (command: TimersCommand) => void;
+  updatePrefs: (patch: Partial<SharedPrefs>) => void;
+  /** o campo de horário não vale: é hora de mostrar o erro */
+  onInvalidInput: () => void;
+  onPresentation: () => void;
+  onPalette: () => void;
+};
+
+/**
+ * Ações do usuário sobre os timers, as mesmas para botões, atalhos de
+ * teclado e a paleta de comandos (`commands`).
+ */
+export function useTimerCommands({
+  enabled,
+  active,
+  timers,
+  timeStr,
+  prefs,
+  t,
+  send,
+  share,
+  updatePrefs,
+  onInvalidInput,
+  onPresentation,
+  onPalette,
+}: TimerCommands) {
+  const state = active.timer;
+  const { mode } = state;
+
+  function sendActive(command: TimerCommand) {
+    share({ type: "timer", id: active.id, command });
+  }
+
+  function addTimer() {
+    share({
+      type: "add",
+      timer: createDefaultTimer(t.page.newTimerName(timers.length + 1)),
+    });
+  }
+
+  function addAlarm() {
+    const count = timers.filter((x) => x.timer.repeat).length;
+    share({
+      type: "add",
+      timer: createAlarmTimer(
+        t.page.newAlarmName(count + 1),
+        DEFAULT_REPEAT,
+        Date.now(),
+      ),
+    });
+  }
+
+  function applyTargetFromInput() {
+    const parsed = parseTimeInput(timeStr, new Date(), t);
+    if (!parsed.ok) {
+      onInvalidInput();
+      return;
+    }
+    sendActive({
+      type: "start",
+      targetMs: parsed.targetMs,
+      zone: parsed.kind === "clock" ? parsed.zone : null,
+    });
+  }
+
+  function startPomodoroNow(phase: PomodoroPhase) {
+    sendActive({ type: "startPhase", phase });
+  }
+
+  async function enableNotifications() {
+    const perm = await requestNotificationPermission();
+    if (perm === "granted") {
+      updatePrefs({ notificationsEnabled: true });
+      notify(t.page.notificationsEnabledTitle, t.page.notificationsEnabledBody);
+    } else {
+      updatePrefs({ notificationsEnabled: false });
+    }
+  }
+
+  /** Espaço: inicia o que estiver aguardando, senão pausa/retoma. */
+  function togglePause() {
+    if (state.status === "running") return sendActive({ type: "pause" });
+    if (state.status === "paused") return sendActive({ type: "resume" });
+    if (mode === "cronometro") return sendActive({ type: "startStopwatch" });
+    if (state.status === "ready" && mode === "pomodoro") {
+      return sendActive({ type: "startNext" });
+    }
+    applyTargetFromInput();
+  }
+
+  function runShortcut(action: ShortcutAction) {
+    switch (action) {
+      case "toggle-pause":
+        return togglePause();
+      case "reset":
+        return sendActive({ type: "reset" });
+      case "start-work":
+        return startPomodoroNow("work");
+      case "start-break":
+        return startPomodoroNow("break");
+      case "start-long-break":
+        return startPomodoroNow("longBreak");
+      case "switch-mode":
+        return sendActive({
+          type: "setMode",
+          mode:
+            mode === "horario"
+              ? "pomodoro"
+              : mode === "pomodoro"
+                ? "cronometro"
+                : "horario",
+        });
+      case "toggle-sound":
+        return updatePrefs({ soundEnabled: !prefs.soundEnabled });
+      case "toggle-particles":
+        return updatePrefs({
+          particleMode: prefs.particleMode === "repel" ? "attract" : "repel",
+        });
+      case "presentation":
+        return onPresentation();
+    }
+  }
+
+  useShortcuts(enabled, prefs.shortcuts, runShortcut, onPalette);
+
+  const commands: Command[] = [
+    ...SHORTCUT_ACTIONS.map((a) => ({
+      id: a,
+      label: t.shortcuts.actions[a],
+      shortcut: prefs.shortcuts[a] || undefined,
+      run: () => runShortcut(a),
+    })),
+    {
+      id: "mode-horario",
+      label: t.palette.modeHorario,
+      run: () => sendActive({ type: "setMode", mode: "horario" }),
+    },
+    {
+      id: "mode-pomodoro",
+      label: t.palette.modePomodoro,
+      run: () => sendActive({ type: "setMode", mode: "pomodoro" }),
+    },
+    {
+      id: "mode-cronometro",
+      label: t.palette.modeCronometro,
+      run: () => sendActive({ type: "setMode", mode: "cronometro" }),
+    },
+    {
+      id: "start-input",
+      label: t.palette.startInput,
+      run: applyTargetFromInput,
+    },
+    {
+      id: "skip",
+      label: t.page.skip,
+      run: () => sendActive({ type: "skip" }),
+    },
+    {
+      id: "reset-cycle",
+      label: t.page.resetCycle,
+      run: () => sendActive({ type: "resetCycle" }),
+    },
+    { id: "lap", label: t.page.lap, run: () => sendActive({ type: "lap" }) },
+    ...prefs.extendOptions.map((min) => ({
+      id: `extend-${min}`,
+      label: t.palette.extend(min),
+      run: () => sendActive({ type: "extend", minutes: min }),
+    })),
+    ...prefs.extendOptions.map((min) => ({
+      id: `snooze-${min}`,
+      label: t.page.snooze(min),
+      run: () =>
+        sendActive({
+          type: "snooze",
+          minutes: min,
+          finished: state.lastFinish ?? undefined,
+        }),
+    })),
+    { id: "new-timer", label: t.palette.newTimer, run: addTimer },
+    { id: "new-alarm", label: t.palette.newAlarm, run: addAlarm },
+    ...timers.map((x) => ({
+      id: `select-${x.id}`,
+      label: t.palette.goTo(x.name),
+      run: () => send({ type: "select", id: x.id }),
+    })),
+    {
+      id: "notifications",
+      label: prefs.notificationsEnabled
+        ? t.palette.notificationsOff
+        : t.palette.notificationsOn,
+      run: () =>
+        prefs.notificationsEnabled
+          ? updatePrefs({ notificationsEnabled: false })
+          : void enableNotifications(),
+    },
+    ...[...BUILTIN_THEMES, ...prefs.customThemes].map((option) => ({
+      id: `theme-${option.id}`,
+      label: t.palette.theme(themeName(option, t)),
+      run: () => updatePrefs({ themeId: option.id }),
+    })),
+    {
+      id: "particles",
+      label: prefs.particlesEnabled
+        ? t.palette.particlesOff
+        : t.palette.particlesOn,
+      run: () => updatePrefs({ particlesEnabled: !prefs.particlesEnabled }),
+    },
+    {
+      id: "motion",
+      label: prefs.reduceMotion
+        ? t.palette.reduceMotionOff
+        : t.palette.reduceMotionOn,
+      run: () => updatePrefs({ reduceMotion: !prefs.reduceMotion }),
+    },
+    ...LOCALES.map((l) => ({
+      id: `locale-${l.id}`,
+      label: t.palette.language(l.label),
+      run: () => updatePrefs({ locale: l.id }),
+    })),
+  ];
+
+  return {
+    sendActive,
+    addTimer,
+    addAlarm,
+    applyTargetFromInput,
+    startPomodoroNow,
+    enableNotifications,
+    commands,
+  };
+}
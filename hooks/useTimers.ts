@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useReducer, useState } from "react";
+import { useClockTicks } from "@/hooks/useClockTicks";
+import {
+  nextStopwatchSecondMs,
+  systemClock,
+  type Clock,
+} from "@/lib/timer-engine";
+import {
+  hasDueTimer,
+  timersReducer,
+  type TimersCommand,
+  type TimersEvent,
+  type TimersState,
+} from "@/lib/timers";
+
+/**
+ * Liga o motor ao React: carimba cada comando com o relógio (e devolve
+ * o evento, para quem quiser repassá-lo). O tick fica com
+ * `useTimerTicks`.
+ */
+export function useTimers(init: () => TimersState, clock: Clock = systemClock) {
+  const [state, dispatch] = useReducer(timersReducer, undefined, init);
+  const [now, setNow] = useState(() => clock.now());
+
+  const send = useCallback(
+    (command: TimersCommand): TimersEvent => {
+      const at = clock.now();
+      setNow(at);
+      const event = { ...command, at } as TimersEvent;
+      dispatch(event);
+      return event;
+    },
+    [clock],
+  );
+
+  /** Aplica um evento já carimbado (ex.: vindo de outra aba). */
+  const receive = useCallback(
+    (event: TimersEvent) => {
+      setNow(Math.max(event.at, clock.now()));
+      dispatch(event);
+    },
+    [clock],
+  );
+
+  /** Só anda o relógio da tela, sem evento. */
+  const refresh = useCallback(() => setNow(clock.now()), [clock]);
+
+  return { state, now, send, receive, refresh, clock };
+}
+
+/**
+ * Tick de todos os timers enquanto `active`: virada de cada segundo +
+ * alvo de cada timer rodando (e a virada de segundo de cada
+ * cronômetro). O tick que encerra uma fase só sai da líder, carimbado,
+ * e `onTick` o repassa às outras abas: assim todas fecham a fase no
+ * mesmo instante, mesmo acordando de uma suspensão em horas diferentes.
+ * As seguidoras (e a aba ainda sem eleição) só andam o relógio.
+ */
+export function useTimerTicks(
+  { state, now, send, refresh, clock }: ReturnType<typeof useTimers>,
+  {
+    active,
+    leader,
+    onTick,
+  }: {
+    active: boolean;
+    leader: boolean | null;
+    onTick: (event: TimersEvent) => void;
+  },
+) {
+  const deadlines = state.timers
+    .filter((t) => t.timer.status === "running")
+    .map((t) =>
+      t.timer.mode === "cronometro"
+        ? nextStopwatchSecondMs(t.timer, now)
+        : t.timer.targetMs,
+    );
+
+  const tick = useCallback(() => {
+    if (leader && hasDueTimer(state, clock.now())) {
+      onTick(send({ type: "tick" }));
+    } else {
+      refresh();
+    }
+  }, [leader, state, clock, send, refresh, onTick]);
+
+  useClockTicks(tick, deadlines, active);
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Mantém a tela acesa enquanto `active`. O navegador solta o bloqueio
+ * quando a aba some; ele é pedido de novo quando ela volta a aparecer.
+ */
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !("wakeLock" in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== "visible") return;
+      try {
+        const next = await navigator.wakeLock.request("screen");
+        if (cancelled) void next.release();
+        else lock = next;
+      } catch {
+        // sem permissão ou bateria fraca: segue sem bloqueio
+      }
+    };
+
+    const onVisibility = () => {
+      if (!lock || lock.released) void acquire();
+    };
+
+    void acquire();
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", onVisibility);
+      void lock?.release().catch(() => {});
+    };
+  }, [active]);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBackup,
+  createBackup,
+  historyToCSV,
+  parseBackup,
+} from "@/lib/backup";
+import type { SessionRecord } from "@/lib/history";
+import { getMessages } from "@/lib/i18n";
+import { SCHEMA_VERSION, validateState } from "@/lib/storage";
+
+const record: SessionRecord = {
+  id: "r1",
+  timerId: "t1",
+  timerName: "Foco",
+  mode: "pomodoro",
+  phase: "work",
+  outcome: "completed",
+  startISO: "2026-01-05T12:00:00.000Z",
+  endISO: "2026-01-05T12:30:00.000Z",
+  plannedSec: 1800,
+  actualSec: 1800,
+  extendedSec: 300,
+  snooze: true,
+};
+
+describe("historyToCSV", () => {
+  it("uses the header and values of the chosen locale", () => {
+    const [ptHeader, ptRow] = historyToCSV(
+      [record],
+      getMessages("pt-BR"),
+    ).split("\n");
+    expect(ptHeader.split(",")[0]).toBe("data");
+    expect(ptRow.endsWith(",sim")).toBe(true);
+
+    const [enHeader, enRow] = historyToCSV([record], getMessages("en")).split(
+      "\n",
+    );
+    expect(enHeader).toBe(
+      "date,start,end,timer,mode,phase,planned_min,actual_min,extended_min,snooze",
+    );
+    expect(enRow.endsWith(",yes")).toBe(true);
+  });
+
+  it("leaves out sessions that did not complete", () => {
+    const csv = historyToCSV(
+      [record, { ...record, id: "r2", outcome: "skipped" }],
+      getMessages("en"),
+    );
+    expect(csv.split("\n")).toHaveLength(2);
+  });
+});
+
+function state(timerIds: string[], extra: Record<string, unknown> = {}) {
+  return validateState({
+    timers: timerIds.map((id) => ({ id, name: id, timerMode: "horario" })),
+    ...extra,
+  });
+}
+
+function backupText(value: unknown) {
+  return JSON.stringify(value);
+}
+
+describe("historyToCSV cells", () => {
+  it("keeps user names from running as formulas", () => {
+    const csv = historyToCSV(
+      [
+        { ...record, timerName: '=HYPERLINK("x")' },
+        { ...record, id: "r2", timerName: "@soma" },
+        { ...record, id: "r3", timerName: "-1+1" },
+      ],
+      getMessages("en"),
+    );
+    const names = csv
+      .split("\n")
+      .slice(1)
+      .map((row) => row.split(",")[3]);
+    expect(names[0].startsWith(`"'=HYPERLINK`)).toBe(true);
+    expect(names[1]).toBe("'@soma");
+    expect(names[2]).toBe("'-1+1");
+  });
+});
+
+describe("parseBackup", () => {
+  const valid = createBackup(state(["a"]), [record]);
+
+  it("reads back an exported backup", () => {
+    const parsed = parseBackup(backupText(valid));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.backup.state.timers.map((t) => t.id)).toEqual(["a"]);
+    expect(parsed.backup.history).toHaveLength(1);
+  });
+
+  it.each([
+    ["not json", "invalid-json"],
+    [backupText({ ...valid, format: "outro" }), "not-backup"],
+    [backupText({ ...valid, version: 99 }), "backup-version"],
+    [
+      backupText({ ...valid, schemaVersion: SCHEMA_VERSION + 1 }),
+      "schema-version",
+    ],
+    [backupText({ ...valid, state: { timers: [] } }), "no-timers"],
+  ])("rejects %s", (text, error) => {
+    expect(parseBackup(text)).toEqual({ ok: false, error });
+  });
+});
+
+describe("applyBackup", () => {
+  const ago = (id: string, days: number): SessionRecord => ({
+    ...record,
+    id,
+    endISO: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  const current = {
+    state: state(["a", "b"], { soundEnabled: true }),
+    history: [ago("r1", 1)],
+  };
+  const incoming = createBackup(state(["b", "c"], { soundEnabled: false }), [
+    ago("r1", 1),
+    ago("r9", 2),
+  ]);
+
+  it("replaces everything", () => {
+    const next = applyBackup(current, incoming, "replace");
+    expect(next.state.timers.map((t) => t.id)).toEqual(["b", "c"]);
+    expect(next.history.map((r) => r.id)).toEqual(["r1", "r9"]);
+  });
+
+  it("merges by id, keeping the current copy on collisions", () => {
+    const next = applyBackup(current, incoming, "merge");
+    expect(next.state.timers.map((t) => t.id)).toEqual(["a", "b", "c"]);
+    expect(next.state.timers[1]).toBe(current.state.timers[1]);
+    expect(next.state.activeTimerId).toBe(current.state.activeTimerId);
+    // preferências vêm do backup
+    expect(next.state.soundEnabled).toBe(false);
+    // histórico unido e em ordem de término
+    expect(next.history.map((r) => r.id)).toEqual(["r9", "r1"]);
+  });
+});
@@ -0,0 +1,221 @@
+/* =========================
+   Backup (exportar / importar)
+
+   O JSON exportado carrega o `PersistedState` como está salvo, junto
+   com a versão do schema; na importação ele passa pelas mesmas
+   migrações e validações do carregamento normal.
+========================= */
+import {
+  pruneHistory,
+  validateHistory,
+  type SessionRecord,
+} from "@/lib/history";
+import type { Messages } from "@/lib/i18n";
+import {
+  migrate,
+  SCHEMA_VERSION,
+  validateState,
+  type PersistedState,
+} from "@/lib/storage";
+import { MAX_TASKS } from "@/lib/tasks";
+import { MAX_CUSTOM_THEMES } from "@/lib/themes";
+import { pad2 } from "@/lib/utils";
+import { asRecord, readInt } from "@/lib/validate";
+
+export const BACKUP_FORMAT = "temporizador-backup";
+export const BACKUP_VERSION = 1;
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number;
+  state: PersistedState;
+  history: SessionRecord[];
+};
+
+export type ImportMode = "merge" | "replace";
+
+/** motivos de recusa; o texto fica no catálogo (`data.errors`) */
+export type ParseError =
+  | "invalid-json"
+  | "not-backup"
+  | "backup-version"
+  | "schema-version"
+  | "no-timers";
+
+export type ParseResult =
+  { ok: true; backup: Backup } | { ok: false; error: ParseError };
+
+export function createBackup(
+  state: PersistedState,
+  history: SessionRecord[],
+): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    state,
+    history,
+  };
+}
+
+export function parseBackup(text: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "invalid-json" };
+  }
+
+  const b = asRecord(raw);
+  if (b.format !== BACKUP_FORMAT) {
+    return { ok: false, error: "not-backup" };
+  }
+
+  const version = readInt(b.version, 1, Infinity, 0);
+  if (!version || version > BACKUP_VERSION) {
+    return { ok: false, error: "backup-version" };
+  }
+
+  const schemaVersion = readInt(b.schemaVersion, 1, SCHEMA_VERSION, 0);
+  if (!schemaVersion) {
+    return { ok: false, error: "schema-version" };
+  }
+
+  const state = validateState(migrate(schemaVersion, b.state));
+  if (!state.timers.length) {
+    return { ok: false, error: "no-timers" };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version,
+      exportedAt: typeof b.exportedAt === "string" ? b.exportedAt : "",
+      schemaVersion: SCHEMA_VERSION,
+      state,
+      history: validateHistory(b.history),
+    },
+  };
+}
+
+/**
+ * `replace` troca tudo. `merge` adota as preferências do backup,
+ * acrescenta os timers e as tarefas que ainda não existem (por id) e une
+ * o histórico.
+ */
+export function applyBackup(
+  current: { state: PersistedState; history: SessionRecord[] },
+  backup: Backup,
+  mode: ImportMode,
+): { state: PersistedState; history: SessionRecord[] } {
+  if (mode === "replace") {
+    return { state: backup.state, history: backup.history };
+  }
+
+  const ids = new Set(current.state.timers.map((t) => t.id));
+  const themeIds = new Set(current.state.customThemes.map((t) => t.id));
+  const taskIds = new Set(current.state.tasks.map((t) => t.id));
+  const state: PersistedState = {
+    ...backup.state,
+    activeTimerId: current.state.activeTimerId,
+    timers: [
+      ...current.state.timers,
+      ...backup.state.timers.filter((t) => !ids.has(t.id)),
+    ],
+    customThemes: [
+      ...current.state.customThemes,
+      ...backup.state.customThemes.filter((t) => !themeIds.has(t.id)),
+    ].slice(0, MAX_CUSTOM_THEMES),
+    activeTaskId: current.state.activeTaskId,
+    tasks: [
+      ...current.state.tasks,
+      ...backup.state.tasks.filter((t) => !taskIds.has(t.id)),
+    ].slice(0, MAX_TASKS),
+  };
+
+  const seen = new Set(current.history.map((r) => r.id));
+  const history = pruneHistory(
+    [...current.history, ...backup.history.filter((r) => !seen.has(r.id))].sort(
+      (a, b) => a.endISO.localeCompare(b.endISO),
+    ),
+    Date.now(),
+  );
+
+  return { state, history };
+}
+
+/* =========================
+   CSV
+========================= */
+function csvCell(v: string | number) {
+  // nomes vêm do usuário: "=", "+", "-" ou "@" no início viram fórmula
+  // na planilha, então o apóstrofo força texto
+  const s =
+    typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\n;]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function localDate(d: Date) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+function localTime(d: Date) {
+  return `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+
+/** Sessões concluídas, uma por linha, para planilhas de horas. */
+export function historyToCSV(records: SessionRecord[], t: Messages) {
+  const csv = t.data.csv;
+  const header = [
+    csv.date,
+    csv.start,
+    csv.end,
+    csv.timer,
+    csv.mode,
+    csv.phase,
+    csv.plannedMin,
+    csv.actualMin,
+    csv.extendedMin,
+    csv.snooze,
+  ];
+  const rows = records
+    .filter((r) => r.outcome === "completed")
+    .map((r) => {
+      const start = new Date(r.startISO);
+      const end = new Date(r.endISO);
+      return [
+        localDate(start),
+        localTime(start),
+        localTime(end),
+        r.timerName,
+        r.mode,
+        r.phase ?? "",
+        (r.plannedSec / 60).toFixed(2),
+        (r.actualSec / 60).toFixed(2),
+        (r.extendedSec / 60).toFixed(2),
+        r.snooze ? csv.yes : "",
+      ];
+    });
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+/* =========================
+   Download
+========================= */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function backupFilename(ext: "json" | "csv") {
+  const d = new Date();
+  return `temporizador-${localDate(d)}.${ext}`;
+}
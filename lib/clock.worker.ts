@@ -0,0 +1,24 @@
+/* =========================
+   Clock worker
+
+   Timers de workers dedicados não sofrem o throttling agressivo das
+   abas em segundo plano, então os prazos disparam na hora certa.
+========================= */
+import { createTicker } from "@/lib/ticker";
+
+export type ClockWorkerIn =
+  { type: "deadlines"; deadlines: number[] } | { type: "stop" };
+
+export type ClockWorkerOut = { type: "tick"; now: number };
+
+const scope = self as unknown as {
+  postMessage: (msg: ClockWorkerOut) => void;
+  onmessage: ((e: MessageEvent<ClockWorkerIn>) => void) | null;
+};
+
+const ticker = createTicker((now) => scope.postMessage({ type: "tick", now }));
+
+scope.onmessage = (e) => {
+  if (e.data.type === "deadlines") ticker.setDeadlines(e.data.deadlines);
+  if (e.data.type === "stop") ticker.stop();
+};
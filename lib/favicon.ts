@@ -0,0 +1,61 @@
+/* =========================
+   Favicon dinâmico
+
+   Uma pizza que encolhe conforme o tempo acaba, desenhada num canvas
+   e trocada no <link rel="icon">. O ícone original volta ao parar.
+========================= */
+const SIZE = 64;
+const LINK_ID = "dynamic-favicon";
+
+let canvas: HTMLCanvasElement | null = null;
+
+/** `remaining` de 0 a 1: fatia que ainda falta, a partir do meio-dia. */
+export function drawPieFavicon(remaining: number, color: string) {
+  canvas ??= document.createElement("canvas");
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const c = SIZE / 2;
+  const r = c - 3;
+  ctx.clearRect(0, 0, SIZE, SIZE);
+
+  ctx.beginPath();
+  ctx.arc(c, c, r, 0, Math.PI * 2);
+  ctx.fillStyle = "#0f172a";
+  ctx.fill();
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+
+  const frac = Math.min(1, Math.max(0, remaining));
+  if (frac > 0) {
+    const start = -Math.PI / 2;
+    ctx.beginPath();
+    ctx.moveTo(c, c);
+    ctx.arc(c, c, r - 5, start, start + frac * Math.PI * 2);
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+  return canvas.toDataURL("image/png");
+}
+
+/** Troca o favicon; `null` devolve o ícone do app. */
+export function setFavicon(href: string | null) {
+  let link = document.getElementById(LINK_ID) as HTMLLinkElement | null;
+  if (!href) {
+    link?.remove();
+    return;
+  }
+  if (!link) {
+    link = document.createElement("link");
+    link.id = LINK_ID;
+    link.rel = "icon";
+    link.type = "image/png";
+    // o último <link rel="icon"> vence
+    document.head.appendChild(link);
+  }
+  link.href = href;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  dailyStats,
+  streaks,
+  weeklyStats,
+  type SessionRecord,
+} from "@/lib/history";
+
+const MIN = 60 * 1000;
+
+/** Pomodoro de trabalho começando no horário local dado. */
+function work(start: Date, extra: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    id: `r-${start.getTime()}`,
+    timerId: "t1",
+    timerName: "Foco",
+    mode: "pomodoro",
+    phase: "work",
+    outcome: "completed",
+    startISO: start.toISOString(),
+    endISO: new Date(start.getTime() + 25 * MIN).toISOString(),
+    plannedSec: 25 * 60,
+    actualSec: 25 * 60,
+    extendedSec: 0,
+    ...extra,
+  };
+}
+
+// quarta, 7 de janeiro, 10:00 no fuso local
+const NOW = new Date(2026, 0, 7, 10, 0).getTime();
+
+describe("dailyStats", () => {
+  it("splits sessions by the local day they started", () => {
+    const days = dailyStats(
+      [
+        work(new Date(2026, 0, 6, 23, 50)),
+        work(new Date(2026, 0, 7, 0, 5)),
+        work(new Date(2026, 0, 7, 8, 0), { snooze: true, actualSec: 300 }),
+        work(new Date(2026, 0, 7, 9, 0), { phase: "break" }),
+        work(new Date(2025, 11, 20, 9, 0)),
+      ],
+      NOW,
+      3,
+    );
+    expect(days.map((d) => d.date.getDate())).toEqual([5, 6, 7]);
+    expect(days.map((d) => d.pomodoros)).toEqual([0, 1, 1]);
+    expect(days.map((d) => d.focusMin)).toEqual([0, 25, 30]);
+  });
+});
+
+describe("weeklyStats", () => {
+  it("starts weeks on Monday at local midnight", () => {
+    const weeks = weeklyStats(
+      [
+        work(new Date(2026, 0, 4, 23, 59)),
+        work(new Date(2026, 0, 5, 0, 0)),
+        work(new Date(2026, 0, 7, 9, 0), { outcome: "zeroed" }),
+        work(new Date(2025, 11, 1, 9, 0)),
+      ],
+      NOW,
+      2,
+    );
+    expect(weeks.map((w) => w.weekStart)).toEqual([
+      new Date(2025, 11, 29),
+      new Date(2026, 0, 5),
+    ]);
+    expect(weeks.map((w) => w.pomodoros)).toEqual([1, 1]);
+  });
+});
+
+describe("streaks", () => {
+  const on = (month: number, day: number) =>
+    work(new Date(2026, month, day, 9, 0));
+
+  it("keeps the current streak alive until today is over", () => {
+    expect(streaks([on(0, 4), on(0, 5), on(0, 6)], NOW)).toEqual({
+      current: 3,
+      best: 3,
+    });
+  });
+
+  it("breaks on a missed day and remembers the best run", () => {
+    const records = [
+      on(0, 1),
+      on(0, 2),
+      on(0, 3),
+      on(0, 3),
+      on(0, 6),
+      on(0, 7),
+    ];
+    expect(streaks(records, NOW)).toEqual({ current: 2, best: 3 });
+    expect(streaks([on(0, 1), on(0, 2)], NOW)).toEqual({
+      current: 0,
+      best: 2,
+    });
+  });
+
+  it("ignores snoozes and unfinished work", () => {
+    const records = [
+      work(new Date(2026, 0, 6, 9, 0), { snooze: true }),
+      work(new Date(2026, 0, 5, 9, 0), { outcome: "skipped" }),
+    ];
+    expect(streaks(records, NOW)).toEqual({ current: 0, best: 0 });
+  });
+});
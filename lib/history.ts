@@ -0,0 +1,269 @@
+/* =========================
+   Histórico de sessões
+
+   Cada sessão encerrada (concluída, pulada ou zerada) vira um registro
+   em localStorage. A retenção é limitada por idade e por quantidade.
+========================= */
+import type {
+  PomodoroPhase,
+  SessionOutcome,
+  TimerMode,
+  TimerSessionEnd,
+} from "@/lib/timer-engine";
+import { createTimerId } from "@/lib/timers";
+import { pad2 } from "@/lib/utils";
+import {
+  asRecord,
+  readEnum,
+  readISO,
+  readInt,
+  readString,
+} from "@/lib/validate";
+
+export const HISTORY_KEY = "temporizador_history";
+const HISTORY_VERSION = 1;
+
+export const HISTORY_MAX_RECORDS = 2000;
+export const HISTORY_MAX_AGE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SessionRecord = {
+  id: string;
+  timerId: string;
+  timerName: string;
+  mode: TimerMode;
+  /** só faz sentido no pomodoro */
+  phase?: PomodoroPhase;
+  outcome: SessionOutcome;
+  startISO: string;
+  endISO: string;
+  /** já inclui as prorrogações */
+  plannedSec: number;
+  actualSec: number;
+  /** parte do planejado somada com "+N min" ou soneca */
+  extendedSec: number;
+  /** soneca: continuação de uma sessão já concluída */
+  snooze?: boolean;
+};
+
+export function recordFromSession(
+  timer: { id: string; name: string },
+  end: TimerSessionEnd,
+): SessionRecord {
+  return {
+    id: createTimerId(),
+    timerId: timer.id,
+    timerName: timer.name,
+    mode: end.mode,
+    phase: end.mode === "pomodoro" ? end.phase : undefined,
+    outcome: end.outcome,
+    startISO: new Date(end.startedAtMs).toISOString(),
+    endISO: new Date(end.endedAtMs).toISOString(),
+    plannedSec: Math.round(end.plannedMs / 1000),
+    actualSec: Math.round(end.actualMs / 1000),
+    extendedSec: Math.round(end.extendedMs / 1000),
+    snooze: end.snooze || undefined,
+  };
+}
+
+/* =========================
+   Load / save
+========================= */
+export function validateRecord(raw: unknown): SessionRecord | null {
+  const r = asRecord(raw);
+  const startISO = readISO(r.startISO);
+  const endISO = readISO(r.endISO);
+  if (!startISO || !endISO) return null;
+
+  const mode = readEnum<TimerMode>(
+    r.mode,
+    ["horario", "pomodoro", "cronometro"],
+    "horario",
+  );
+  return {
+    id: readString(r.id, createTimerId()),
+    timerId: readString(r.timerId, ""),
+    timerName: readString(r.timerName, "Timer"),
+    mode,
+    phase:
+      mode === "pomodoro"
+        ? readEnum<PomodoroPhase>(
+            r.phase,
+            ["work", "break", "longBreak"],
+            "work",
+          )
+        : undefined,
+    outcome: readEnum(
+      r.outcome,
+      ["completed", "skipped", "zeroed"],
+      "completed",
+    ),
+    startISO,
+    endISO,
+    plannedSec: readInt(r.plannedSec, 0, Infinity, 0),
+    actualSec: readInt(r.actualSec, 0, Infinity, 0),
+    extendedSec: readInt(r.extendedSec, 0, Infinity, 0),
+    snooze: r.snooze === true || undefined,
+  };
+}
+
+export function validateHistory(raw: unknown): SessionRecord[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(validateRecord).filter((r): r is SessionRecord => r !== null);
+}
+
+export function pruneHistory(records: SessionRecord[], now: number) {
+  const minMs = now - HISTORY_MAX_AGE_DAYS * DAY_MS;
+  return records
+    .filter((r) => new Date(r.endISO).getTime() >= minMs)
+    .slice(-HISTORY_MAX_RECORDS);
+}
+
+export function appendHistory(
+  records: SessionRecord[],
+  record: SessionRecord,
+  now: number,
+) {
+  return pruneHistory([...records, record], now);
+}
+
+export function loadHistory(): SessionRecord[] {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return [];
+    const env = asRecord(JSON.parse(raw));
+    return pruneHistory(validateHistory(env.data), Date.now());
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(records: SessionRecord[]) {
+  try {
+    localStorage.setItem(
+      HISTORY_KEY,
+      JSON.stringify({ version: HISTORY_VERSION, data: records }),
+    );
+  } catch {
+    // ignore
+  }
+}
+
+/* =========================
+   Statistics
+========================= */
+function startOfDay(ms: number) {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function dayKey(d: Date) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+function addDays(d: Date, days: number) {
+  const r = new Date(d.getTime());
+  r.setDate(r.getDate() + days);
+  return r;
+}
+
+function isWork(r: SessionRecord) {
+  return r.mode === "pomodoro" && r.phase === "work";
+}
+
+// a soneca soma minutos de foco, mas não conta como outro pomodoro
+function isCompletedPomodoro(r: SessionRecord) {
+  return isWork(r) && r.outcome === "completed" && !r.snooze;
+}
+
+export type DayStat = {
+  date: Date;
+  focusMin: number;
+  pomodoros: number;
+};
+
+/** Minutos de foco e pomodoros concluídos nos últimos `days` dias. */
+export function dailyStats(
+  records: SessionRecord[],
+  now: number,
+  days = 7,
+): DayStat[] {
+  const first = addDays(startOfDay(now), -(days - 1));
+  const stats = Array.from({ length: days }, (_, i) => ({
+    date: addDays(first, i),
+    focusMin: 0,
+    pomodoros: 0,
+  }));
+  const byKey = new Map(stats.map((s) => [dayKey(s.date), s]));
+
+  for (const r of records) {
+    if (!isWork(r)) continue;
+    const s = byKey.get(dayKey(new Date(r.startISO)));
+    if (!s) continue;
+    s.focusMin += r.actualSec / 60;
+    if (isCompletedPomodoro(r)) s.pomodoros++;
+  }
+  return stats;
+}
+
+export type WeekStat = { weekStart: Date; pomodoros: number };
+
+/** Pomodoros concluídos por semana (segunda a domingo). */
+export function weeklyStats(
+  records: SessionRecord[],
+  now: number,
+  weeks = 4,
+): WeekStat[] {
+  const today = startOfDay(now);
+  const monday = addDays(today, -((today.getDay() + 6) % 7));
+  const stats = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: addDays(monday, -(weeks - 1 - i) * 7),
+    pomodoros: 0,
+  }));
+
+  for (const r of records) {
+    if (!isCompletedPomodoro(r)) continue;
+    const t = new Date(r.startISO).getTime();
+    for (let i = stats.length - 1; i >= 0; i--) {
+      if (t >= stats[i].weekStart.getTime()) {
+        if (t < addDays(stats[i].weekStart, 7).getTime()) stats[i].pomodoros++;
+        break;
+      }
+    }
+  }
+  return stats;
+}
+
+/** Sequência de dias com pelo menos um pomodoro concluído. */
+export function streaks(records: SessionRecord[], now: number) {
+  const days = new Set(
+    records
+      .filter(isCompletedPomodoro)
+      .map((r) => dayKey(new Date(r.startISO))),
+  );
+
+  // a sequência atual não quebra só porque hoje ainda não teve pomodoro
+  let cursor = startOfDay(now);
+  if (!days.has(dayKey(cursor))) cursor = addDays(cursor, -1);
+  let current = 0;
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  const sorted = [...days].sort();
+  let best = 0;
+  let run = 0;
+  let prev: Date | null = null;
+  for (const key of sorted) {
+    const [y, m, d] = key.split("-").map(Number);
+    const date = new Date(y, m - 1, d);
+    run = prev && dayKey(addDays(prev, 1)) === key ? run + 1 : 1;
+    best = Math.max(best, run);
+    prev = date;
+  }
+
+  return { current, best };
+}
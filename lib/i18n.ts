@@ -0,0 +1,48 @@
+/* =========================
+   Idiomas
+
+   Catálogos em `lib/locales`; o pt-BR é a referência. Sem preferência
+   salva, o idioma vem do navegador; qualquer coisa que não seja
+   português cai no inglês.
+========================= */
+import { en } from "@/lib/locales/en";
+import { ptBR, type Messages } from "@/lib/locales/pt-BR";
+
+export type { Messages };
+
+export type Locale = "pt-BR" | "en";
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "pt-BR", label: "Português (Brasil)" },
+  { id: "en", label: "English" },
+];
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+const CATALOGS: Record<Locale, Messages> = { "pt-BR": ptBR, en };
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
+
+/** Primeiro idioma do navegador que a gente fala. */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const lang of languages) {
+    const l = lang.toLowerCase();
+    if (l.startsWith("pt")) return "pt-BR";
+    if (l.startsWith("en")) return "en";
+  }
+  return languages.length ? "en" : DEFAULT_LOCALE;
+}
+
+export function browserLocale(): Locale {
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  return detectLocale(
+    navigator.languages?.length ? navigator.languages : [navigator.language],
+  );
+}
+
+/** Dia e mês curtos no formato do idioma ("19/10" ou "10/19"). */
+export function formatDayMonth(d: Date, locale: Locale) {
+  return d.toLocaleDateString(locale, { day: "2-digit", month: "2-digit" });
+}
@@ -0,0 +1,360 @@
+/* =========================
+   English texts
+========================= */
+import type { Messages } from "@/lib/locales/pt-BR";
+
+export const en: Messages = {
+  appName: "Timer",
+  common: {
+    remove: "Remove",
+    rename: "Rename",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    yes: "Yes",
+    no: "No",
+    start: "Start",
+    minutes: (n) => `${n} min`,
+  },
+  phase: {
+    work: "Work",
+    break: "Break",
+    longBreak: "Long break",
+  },
+  mode: {
+    horario: "Clock time",
+    pomodoro: "Pomodoro",
+    cronometro: "Stopwatch",
+  },
+  status: {
+    finished: "Finished",
+    paused: "Paused",
+    ready: "Waiting",
+    running: "Running…",
+  },
+  page: {
+    clock: "Computer time",
+    target: "Target",
+    start: "Started",
+    modeTitle: "Mode",
+    particles: "Particles",
+    repel: "Repel",
+    attract: "Attract",
+    alertsTitle: "Alerts",
+    sound: "Sound",
+    soundOn: "On",
+    soundOff: "Off",
+    notifications: "Notifications",
+    notificationsOn: "On",
+    notificationsEnable: "Enable",
+    testSound: "Test sound",
+    extendOptions: "Extend / snooze (min)",
+    notificationsHint:
+      "*Notifications depend on the browser's permission. Sounds and alerts need an app tab open (it can stay in the background).",
+    notificationsHintPush:
+      "*Notifications depend on the browser's permission. They arrive even with the app closed; the sound only plays with an app tab open.",
+    notificationsEnabledTitle: "Notifications enabled ✅",
+    notificationsEnabledBody: "You'll be alerted when a timer finishes.",
+    language: "Language",
+    languageAuto: "Automatic",
+    inputLabel: "Time or duration",
+    inputHelp:
+      "Duration (10m, 1h30, 90s, +15) or clock time (18:30:00, 6:30pm). If the time has already passed today, it counts for tomorrow.",
+    pomodoroCycle: (count, every) =>
+      `Cycle: ${count}/${every} (after ${every} work sessions → long break)`,
+    startWork: "Start Work",
+    startBreak: "Start Break",
+    startLongBreak: "Long Break",
+    workMin: "Work (min)",
+    breakMin: "Break (min)",
+    longBreakMin: "Long break (min)",
+    longBreakEvery: "Work sessions before long break",
+    autoStartWork: "Auto-start work",
+    autoStartBreak: "Auto-start break",
+    pomodoroHelp:
+      "When it reaches zero it rings/notifies and moves to the next phase. Without auto-start, the next phase waits for you to start it.",
+    countdown: "Countdown",
+    finishedBadge: "Finished ✅",
+    pausedBadge: "Paused ⏸",
+    readyBadge: "Waiting ▶",
+    progressLabel: "Countdown progress",
+    progressOf: (percent, total) => `${percent}% of ${total}`,
+    startPhase: (phase) => `Start ${phase}`,
+    pause: "Pause",
+    resume: "Resume",
+    extendTitle: (min) => `Add ${min} min to the current countdown`,
+    snooze: (min) => `Snooze +${min} min`,
+    snoozeTitle: (min) => `${min} more min from now`,
+    lap: "Lap",
+    reset: "Zero",
+    skip: "Skip phase",
+    resetCycle: "Reset cycle",
+    presentation: "Presentation ⛶",
+    presentationTitle: "Fullscreen giant countdown",
+    clockHint:
+      "*Based on the computer clock. If you change the system time, the countdown changes too.",
+    newTimerName: (n) => `Timer ${n}`,
+    newAlarmName: (n) => `Alarm ${n}`,
+    until: (time) => `Until ${time}`,
+    targetAt: (time) => `Target ${time}`,
+    startedAt: (time) => `Started ${time}`,
+  },
+  tabTitle: {
+    finished: (name) => `✅ Finished · ${name}`,
+    ready: (phase) => `Waiting · ${phase}`,
+  },
+  palette: {
+    title: "Command palette",
+    placeholder: "Search actions…",
+    empty: "No matching action.",
+    modeHorario: "Clock time mode",
+    modePomodoro: "Pomodoro mode",
+    modeCronometro: "Stopwatch mode",
+    startInput: "Start with the typed time",
+    extend: (min) => `Extend +${min} min`,
+    newTimer: "New timer",
+    newAlarm: "New recurring alarm",
+    goTo: (name) => `Go to ${name}`,
+    notificationsOn: "Enable notifications",
+    notificationsOff: "Turn off notifications",
+    language: (label) => `Language: ${label}`,
+    theme: (name) => `Theme: ${name}`,
+    particlesOn: "Turn particles on",
+    particlesOff: "Turn particles off",
+    reduceMotionOn: "Reduce motion",
+    reduceMotionOff: "Restore animations",
+  },
+  shortcuts: {
+    title: "Shortcuts",
+    restore: "Restore defaults",
+    recording: "Press a key…",
+    help: "Click and press the new key (Backspace clears it). Ctrl+K opens the palette with every action. Shortcuts are ignored while you type.",
+    space: "Space",
+    actions: {
+      "toggle-pause": "Pause / resume",
+      reset: "Zero",
+      "start-work": "Start work",
+      "start-break": "Start break",
+      "start-long-break": "Start long break",
+      "switch-mode": "Switch mode",
+      "toggle-sound": "Sound on / off",
+      "toggle-particles": "Repel / attract particles",
+      presentation: "Presentation mode",
+    },
+  },
+  presentation: {
+    exitHint: "Press any key or Esc to exit",
+  },
+  notifications: {
+    pomodoroFinished: "Pomodoro finished",
+    timerFinished: "Timer finished",
+    phase: (phase) => `Phase: ${phase}`,
+    target: (time) => `Target: ${time}`,
+    startNext: (phase) => `Start ${phase}`,
+    snooze: (min) => `Snooze +${min} min`,
+    task: (title) => `Task: ${title}`,
+  },
+  alarm: {
+    dismiss: "Dismiss",
+  },
+  a11y: {
+    started: (label) => `${label} running`,
+    resumed: (label) => `${label} resumed`,
+    paused: (label) => `${label} paused`,
+    ready: (phase) => `Next phase: ${phase}. Ready to start.`,
+    remaining: (s) =>
+      s >= 60
+        ? `${s / 60} ${s > 60 ? "minutes" : "minute"} left`
+        : `${s} seconds left`,
+    finished: (name) => `${name} finished`,
+    countdown: (name) => `${name} countdown`,
+  },
+  timeInput: {
+    empty: "Type a time or a duration.",
+    zeroDuration: "The duration must be greater than zero.",
+    maxDuration: (hours) => `Maximum duration: ${hours} hours.`,
+    hour12: "In 12-hour format, the hour goes from 1 to 12.",
+    hour24: "Invalid hour: use 00 to 23.",
+    minutes: "Invalid minutes: use 00 to 59.",
+    seconds: "Invalid seconds: use 00 to 59.",
+    unknownZone: (zone) => `Unknown time zone: ${zone}.`,
+    zoneOnlyClock:
+      "A time zone only applies to clock times (e.g. 15:00 America/New_York).",
+    bareNumber: (n) => `Use +${n} for ${n} minutes or ${n}:00 for a time.`,
+    unknown: (examples) => `Unrecognized format. Examples: ${examples}.`,
+    endsAt: (time) => `Ends at ${time}`,
+    tomorrow: " tomorrow",
+    onDate: (date) => ` on ${date}`,
+    inZone: (time, zone, offset) => ` (${time} in ${zone}, ${offset})`,
+    in: (left) => ` · in ${left}`,
+  },
+  timers: {
+    title: "Timers",
+    add: "+ New timer",
+  },
+  laps: {
+    lap: "Lap",
+    time: "Lap time",
+    total: "Total",
+  },
+  schedule: {
+    title: "Recurring alarms",
+    add: "+ New alarm",
+    empty:
+      "No alarms. Create one to ring on fixed days and times (e.g. 09:25 on workdays).",
+    label: "Alarm label",
+    time: "Alarm time",
+    zone: "Alarm time zone",
+    localZone: "Local time zone",
+    enabled: "On",
+    disabled: "Off",
+    onlyHorario: "Clock time mode only",
+    next: (when) => `Next: ${when}`,
+    weekdayShort: ["S", "M", "T", "W", "T", "F", "S"],
+    weekdayNames: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+    everyDay: "every day",
+    workdays: "workdays",
+    weekends: "weekends",
+  },
+  sound: {
+    title: "Sounds",
+    volume: "Volume",
+    presets: {
+      chime: "Chime",
+      bell: "Bell",
+      digital: "Digital",
+      ascending: "Ascending",
+    },
+    events: {
+      work: "End of work",
+      break: "End of break",
+      horario: "Clock time / alarm",
+    },
+    test: "Test sound",
+    repeatUntilAck: "Ring until dismissed",
+    upload: "Upload sound",
+    listen: "Listen",
+    added: (name) => `"${name}" added ✅`,
+    localOnly:
+      "Uploaded sounds stay in this browser only (not included in backups).",
+    errors: {
+      "not-audio": "The file must be an audio file.",
+      "too-large": "File too large (max. 5 MB).",
+      "save-failed": "Could not save the sound.",
+    },
+  },
+  stats: {
+    title: "Statistics",
+    streak: (current, best) =>
+      `Streak: ${current} ${current === 1 ? "day" : "days"} (best ${best})`,
+    focusPerDay: "Focus minutes per day",
+    dayTitle: (min, pomodoros) => `${min} min · ${pomodoros} pomodoros`,
+    perWeek: "Pomodoros per week",
+    recent: "Recent sessions",
+    outcome: {
+      completed: "completed",
+      skipped: "skipped",
+      zeroed: "zeroed",
+    },
+    snooze: " · snooze",
+    extended: (min) => ` · +${min} min`,
+    clear: "Clear history",
+    clearConfirm: (n) =>
+      `Delete ${n} ${n === 1 ? "session" : "sessions"} from history?`,
+  },
+  tasks: {
+    title: "Tasks",
+    newTask: "New task",
+    estimate: "Estimated pomodoros",
+    add: "Add",
+    empty: "No tasks yet. The active task gets every finished work pomodoro.",
+    select: "Work on this task",
+    none: "No task",
+    pick: "Task",
+    current: (title) => `Task: ${title}`,
+    progress: (done, estimate) => `${done}/${estimate} 🍅`,
+    more: "One more estimated pomodoro",
+    less: "One fewer estimated pomodoro",
+    done: "Done",
+    archive: "Archive",
+    unarchive: "Unarchive",
+    showArchived: (n) => `Archived (${n})`,
+    hideArchived: "Hide archived",
+  },
+  theme: {
+    title: "Appearance",
+    builtin: {
+      dark: "Dark",
+      light: "Light",
+      contrast: "High contrast",
+      ocean: "Ocean",
+      sunset: "Sunset",
+      forest: "Forest",
+    },
+    particles: "Particles",
+    particlesOn: "On",
+    particlesOff: "Off",
+    reduceMotion: "Reduce motion",
+    reduceMotionHelp:
+      "Turns off pulses, transitions and the particle animation. The system reduced-motion setting applies too.",
+    effects: "Timer reactions",
+    effect: {
+      phaseColors: "Phase colour",
+      urgency: "Rush near the end",
+      burst: "Fireworks on finish",
+      breathing: "Breathing on breaks",
+    },
+    customize: "Customize",
+    newName: (n) => `My theme ${n}`,
+    name: "Theme name",
+    scheme: "Base",
+    schemes: {
+      dark: "Dark",
+      light: "Light",
+      contrast: "High contrast",
+    },
+    background: "Background",
+    gradient: (n) => `Glow ${n}`,
+    card: "Card",
+    cardOpacity: "Card opacity",
+    particle: "Particles",
+    physics: {
+      density: "Density",
+      linkDist: "Link reach",
+      speed: "Speed",
+      force: "Pointer force",
+    },
+    help: "Built-in themes don't change: “Customize” makes an editable copy of the current theme.",
+  },
+  data: {
+    title: "Data",
+    exportJSON: "Export JSON",
+    exportCSV: "Export CSV",
+    importJSON: "Import JSON",
+    importMode: "Import",
+    merge: "Merge",
+    replace: "Replace",
+    merged: "Backup merged with the current data ✅",
+    replaced: "Data replaced by the backup ✅",
+    help: "The JSON includes settings, timers and history. The CSV has only completed sessions.",
+    errors: {
+      "invalid-json": "The file is not valid JSON.",
+      "not-backup": "The file is not a timer backup.",
+      "backup-version": "Unsupported backup version.",
+      "schema-version": "Unsupported data version.",
+      "no-timers": "The backup has no timers.",
+    },
+    csv: {
+      date: "date",
+      start: "start",
+      end: "end",
+      timer: "timer",
+      mode: "mode",
+      phase: "phase",
+      plannedMin: "planned_min",
+      actualMin: "actual_min",
+      extendedMin: "extended_min",
+      snooze: "snooze",
+      yes: "yes",
+    },
+  },
+};
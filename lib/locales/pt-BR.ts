@@ -0,0 +1,367 @@
+/* =========================
+   Textos em português (catálogo de referência)
+
+   O formato deste objeto define o tipo `Messages`; os outros idiomas
+   precisam ter exatamente as mesmas chaves.
+========================= */
+export const ptBR = {
+  appName: "Temporizador",
+  common: {
+    remove: "Remover",
+    rename: "Renomear",
+    moveUp: "Subir",
+    moveDown: "Descer",
+    yes: "Sim",
+    no: "Não",
+    start: "Iniciar",
+    minutes: (n: number) => `${n} min`,
+  },
+  phase: {
+    work: "Trabalho",
+    break: "Pausa",
+    longBreak: "Pausa longa",
+  },
+  mode: {
+    horario: "Horário",
+    pomodoro: "Pomodoro",
+    cronometro: "Cronômetro",
+  },
+  status: {
+    finished: "Finalizado",
+    paused: "Pausado",
+    ready: "Aguardando",
+    running: "Rodando…",
+  },
+  page: {
+    clock: "Hora do PC",
+    target: "Alvo",
+    start: "Início",
+    modeTitle: "Modo",
+    particles: "Partículas",
+    repel: "Repelir",
+    attract: "Atrair",
+    alertsTitle: "Avisos",
+    sound: "Som",
+    soundOn: "Ligado",
+    soundOff: "Desligado",
+    notifications: "Notificações",
+    notificationsOn: "Ligadas",
+    notificationsEnable: "Ativar",
+    testSound: "Testar som",
+    extendOptions: "Prorrogar / soneca (min)",
+    notificationsHint:
+      "*Notificações dependem da permissão do navegador. Som e avisos precisam de uma aba do app aberta (pode ficar em segundo plano).",
+    notificationsHintPush:
+      "*Notificações dependem da permissão do navegador. Elas chegam mesmo com o app fechado; o som só toca com uma aba do app aberta.",
+    notificationsEnabledTitle: "Notificações ativadas ✅",
+    notificationsEnabledBody: "Você vai receber aviso quando finalizar.",
+    language: "Idioma",
+    languageAuto: "Automático",
+    inputLabel: "Horário ou duração",
+    inputHelp:
+      "Duração (10m, 1h30, 90s, +15) ou horário (18:30:00, 6:30pm). Se o horário já passou hoje, conta para amanhã automaticamente.",
+    pomodoroCycle: (count: number, every: number) =>
+      `Ciclo: ${count}/${every} (após ${every} trabalhos → pausa longa)`,
+    startWork: "Iniciar Trabalho",
+    startBreak: "Iniciar Pausa",
+    startLongBreak: "Pausa Longa",
+    workMin: "Trabalho (min)",
+    breakMin: "Pausa (min)",
+    longBreakMin: "Pausa longa (min)",
+    longBreakEvery: "Trabalhos até pausa longa",
+    autoStartWork: "Auto-iniciar trabalho",
+    autoStartBreak: "Auto-iniciar pausa",
+    pomodoroHelp:
+      "Ao zerar, ele toca/notifica e avança para a próxima fase. Sem auto-início, a fase seguinte fica aguardando você iniciar.",
+    countdown: "Contagem regressiva",
+    finishedBadge: "Finalizado ✅",
+    pausedBadge: "Pausado ⏸",
+    readyBadge: "Aguardando ▶",
+    progressLabel: "Progresso da contagem",
+    progressOf: (percent: number, total: string) => `${percent}% de ${total}`,
+    startPhase: (phase: string) => `Iniciar ${phase}`,
+    pause: "Pausar",
+    resume: "Retomar",
+    extendTitle: (min: number) => `Somar ${min} min à contagem atual`,
+    snooze: (min: number) => `Soneca +${min} min`,
+    snoozeTitle: (min: number) => `Mais ${min} min a partir de agora`,
+    lap: "Volta",
+    reset: "Zerar",
+    skip: "Pular fase",
+    resetCycle: "Reset ciclo",
+    presentation: "Apresentação ⛶",
+    presentationTitle: "Tela cheia com a contagem gigante",
+    clockHint:
+      "*Baseado no relógio do PC. Se você mudar o horário do Windows, a contagem muda junto.",
+    newTimerName: (n: number) => `Timer ${n}`,
+    newAlarmName: (n: number) => `Alarme ${n}`,
+    until: (time: string) => `Até ${time}`,
+    targetAt: (time: string) => `Alvo ${time}`,
+    startedAt: (time: string) => `Início ${time}`,
+  },
+  tabTitle: {
+    finished: (name: string) => `✅ Finalizado · ${name}`,
+    ready: (phase: string) => `Aguardando · ${phase}`,
+  },
+  palette: {
+    title: "Paleta de comandos",
+    placeholder: "Buscar ação…",
+    empty: "Nenhuma ação encontrada.",
+    modeHorario: "Modo horário",
+    modePomodoro: "Modo pomodoro",
+    modeCronometro: "Modo cronômetro",
+    startInput: "Iniciar com o horário digitado",
+    extend: (min: number) => `Prorrogar +${min} min`,
+    newTimer: "Novo timer",
+    newAlarm: "Novo alarme recorrente",
+    goTo: (name: string) => `Ir para ${name}`,
+    notificationsOn: "Ativar notificações",
+    notificationsOff: "Desligar notificações",
+    language: (label: string) => `Idioma: ${label}`,
+    theme: (name: string) => `Tema: ${name}`,
+    particlesOn: "Ligar partículas",
+    particlesOff: "Desligar partículas",
+    reduceMotionOn: "Reduzir movimento",
+    reduceMotionOff: "Voltar as animações",
+  },
+  shortcuts: {
+    title: "Atalhos",
+    restore: "Restaurar padrão",
+    recording: "Pressione…",
+    help: "Clique e pressione a nova tecla (Backspace remove). Ctrl+K abre a paleta com todas as ações. Os atalhos não valem enquanto você digita.",
+    space: "Espaço",
+    actions: {
+      "toggle-pause": "Pausar / retomar",
+      reset: "Zerar",
+      "start-work": "Iniciar trabalho",
+      "start-break": "Iniciar pausa",
+      "start-long-break": "Iniciar pausa longa",
+      "switch-mode": "Trocar modo",
+      "toggle-sound": "Ligar / desligar som",
+      "toggle-particles": "Repelir / atrair partículas",
+      presentation: "Modo apresentação",
+    },
+  },
+  presentation: {
+    exitHint: "Qualquer tecla ou Esc para sair",
+  },
+  notifications: {
+    pomodoroFinished: "Pomodoro finalizado",
+    timerFinished: "Timer finalizado",
+    phase: (phase: string) => `Fase: ${phase}`,
+    target: (time: string) => `Alvo: ${time}`,
+    startNext: (phase: string) => `Iniciar ${phase}`,
+    snooze: (min: number) => `Soneca +${min} min`,
+    task: (title: string) => `Tarefa: ${title}`,
+  },
+  alarm: {
+    dismiss: "Dispensar",
+  },
+  a11y: {
+    started: (label: string) => `${label} em andamento`,
+    resumed: (label: string) => `${label} retomado`,
+    paused: (label: string) => `${label} pausado`,
+    ready: (phase: string) => `Próxima fase: ${phase}. Pronto para iniciar.`,
+    remaining: (s: number) =>
+      s >= 60
+        ? `Falta${s > 60 ? "m" : ""} ${s / 60} ${s > 60 ? "minutos" : "minuto"}`
+        : `Faltam ${s} segundos`,
+    finished: (name: string) => `${name} terminou`,
+    countdown: (name: string) => `Contagem de ${name}`,
+  },
+  timeInput: {
+    empty: "Digite um horário ou uma duração.",
+    zeroDuration: "A duração precisa ser maior que zero.",
+    maxDuration: (hours: number) => `Duração máxima: ${hours} horas.`,
+    hour12: "No formato 12h, a hora vai de 1 a 12.",
+    hour24: "Hora inválida: use de 00 a 23.",
+    minutes: "Minutos inválidos: use de 00 a 59.",
+    seconds: "Segundos inválidos: use de 00 a 59.",
+    unknownZone: (zone: string) => `Fuso horário desconhecido: ${zone}.`,
+    zoneOnlyClock: "O fuso só vale para horário (ex.: 15:00 America/New_York).",
+    bareNumber: (n: string) =>
+      `Use +${n} para ${n} minutos ou ${n}:00 para horário.`,
+    unknown: (examples: string) =>
+      `Formato não reconhecido. Exemplos: ${examples}.`,
+    endsAt: (time: string) => `Termina às ${time}`,
+    tomorrow: " de amanhã",
+    onDate: (date: string) => ` de ${date}`,
+    inZone: (time: string, zone: string, offset: string) =>
+      ` (${time} em ${zone}, ${offset})`,
+    in: (left: string) => ` · em ${left}`,
+  },
+  timers: {
+    title: "Timers",
+    add: "+ Novo timer",
+  },
+  laps: {
+    lap: "Volta",
+    time: "Tempo da volta",
+    total: "Total",
+  },
+  schedule: {
+    title: "Alarmes recorrentes",
+    add: "+ Novo alarme",
+    empty:
+      "Nenhum alarme. Crie um para tocar em dias e horário fixos (ex.: 09:25 nos dias úteis).",
+    label: "Rótulo do alarme",
+    time: "Horário do alarme",
+    zone: "Fuso horário do alarme",
+    localZone: "Fuso local",
+    enabled: "Ativo",
+    disabled: "Desativado",
+    onlyHorario: "Só no modo horário",
+    next: (when: string) => `Próximo: ${when}`,
+    weekdayShort: ["D", "S", "T", "Q", "Q", "S", "S"],
+    weekdayNames: ["dom", "seg", "ter", "qua", "qui", "sex", "sáb"],
+    everyDay: "todos os dias",
+    workdays: "dias úteis",
+    weekends: "fins de semana",
+  },
+  sound: {
+    title: "Sons",
+    volume: "Volume",
+    presets: {
+      chime: "Carrilhão",
+      bell: "Sino",
+      digital: "Digital",
+      ascending: "Crescente",
+    },
+    events: {
+      work: "Fim do trabalho",
+      break: "Fim da pausa",
+      horario: "Horário / alarme",
+    },
+    test: "Testar som",
+    repeatUntilAck: "Tocar até dispensar",
+    upload: "Enviar som",
+    listen: "Ouvir",
+    added: (name: string) => `"${name}" adicionado ✅`,
+    localOnly: "Sons enviados ficam só neste navegador (não vão no backup).",
+    errors: {
+      "not-audio": "O arquivo precisa ser de áudio.",
+      "too-large": "Arquivo muito grande (máx. 5 MB).",
+      "save-failed": "Não foi possível salvar o som.",
+    },
+  },
+  stats: {
+    title: "Estatísticas",
+    streak: (current: number, best: number) =>
+      `Sequência: ${current} ${current === 1 ? "dia" : "dias"} (recorde ${best})`,
+    focusPerDay: "Minutos de foco por dia",
+    dayTitle: (min: number, pomodoros: number) =>
+      `${min} min · ${pomodoros} pomodoros`,
+    perWeek: "Pomodoros por semana",
+    recent: "Últimas sessões",
+    outcome: {
+      completed: "concluída",
+      skipped: "pulada",
+      zeroed: "zerada",
+    },
+    snooze: " · soneca",
+    extended: (min: number) => ` · +${min} min`,
+    clear: "Limpar histórico",
+    clearConfirm: (n: number) =>
+      `Apagar ${n} ${n === 1 ? "sessão" : "sessões"} do histórico?`,
+  },
+  tasks: {
+    title: "Tarefas",
+    newTask: "Nova tarefa",
+    estimate: "Pomodoros previstos",
+    add: "Adicionar",
+    empty:
+      "Nenhuma tarefa. A tarefa ativa recebe cada pomodoro de trabalho concluído.",
+    select: "Trabalhar nesta tarefa",
+    none: "Sem tarefa",
+    pick: "Tarefa",
+    current: (title: string) => `Tarefa: ${title}`,
+    progress: (done: number, estimate: number) => `${done}/${estimate} 🍅`,
+    more: "Mais um pomodoro previsto",
+    less: "Menos um pomodoro previsto",
+    done: "Feita",
+    archive: "Arquivar",
+    unarchive: "Desarquivar",
+    showArchived: (n: number) => `Arquivadas (${n})`,
+    hideArchived: "Esconder arquivadas",
+  },
+  theme: {
+    title: "Aparência",
+    builtin: {
+      dark: "Escuro",
+      light: "Claro",
+      contrast: "Alto contraste",
+      ocean: "Oceano",
+      sunset: "Pôr do sol",
+      forest: "Floresta",
+    } as Record<string, string>,
+    particles: "Partículas",
+    particlesOn: "Ligadas",
+    particlesOff: "Desligadas",
+    reduceMotion: "Reduzir movimento",
+    reduceMotionHelp:
+      "Desliga pulsos, transições e a animação das partículas. O ajuste de movimento reduzido do sistema também vale.",
+    effects: "Reações ao timer",
+    effect: {
+      phaseColors: "Cor da fase",
+      urgency: "Aperto no fim",
+      burst: "Fogos ao terminar",
+      breathing: "Respiração nas pausas",
+    },
+    customize: "Personalizar",
+    newName: (n: number) => `Meu tema ${n}`,
+    name: "Nome do tema",
+    scheme: "Base",
+    schemes: {
+      dark: "Escura",
+      light: "Clara",
+      contrast: "Alto contraste",
+    },
+    background: "Fundo",
+    gradient: (n: number) => `Brilho ${n}`,
+    card: "Cartão",
+    cardOpacity: "Opacidade do cartão",
+    particle: "Partículas",
+    physics: {
+      density: "Densidade",
+      linkDist: "Alcance das ligações",
+      speed: "Velocidade",
+      force: "Força do ponteiro",
+    },
+    help: "Os temas prontos não mudam: “Personalizar” cria uma cópia editável do tema atual.",
+  },
+  data: {
+    title: "Dados",
+    exportJSON: "Exportar JSON",
+    exportCSV: "Exportar CSV",
+    importJSON: "Importar JSON",
+    importMode: "Importação",
+    merge: "Mesclar",
+    replace: "Substituir",
+    merged: "Backup mesclado com os dados atuais ✅",
+    replaced: "Dados substituídos pelo backup ✅",
+    help: "O JSON leva configurações, timers e histórico. O CSV traz só as sessões concluídas.",
+    errors: {
+      "invalid-json": "Arquivo não é um JSON válido.",
+      "not-backup": "Arquivo não é um backup do temporizador.",
+      "backup-version": "Versão de backup não suportada.",
+      "schema-version": "Versão de dados não suportada.",
+      "no-timers": "O backup não contém nenhum timer.",
+    },
+    // cabeçalho e valores do CSV exportado
+    csv: {
+      date: "data",
+      start: "inicio",
+      end: "fim",
+      timer: "timer",
+      mode: "modo",
+      phase: "fase",
+      plannedMin: "planejado_min",
+      actualMin: "real_min",
+      extendedMin: "prorrogado_min",
+      snooze: "soneca",
+      yes: "sim",
+    },
+  },
+};
+
+export type Messages = typeof ptBR;
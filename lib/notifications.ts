@@ -0,0 +1,198 @@
+/* =========================
+   Notifications
+
+   Com service worker, a notificação sai por ele: aceita botões de ação
+   e substitui a agendada de mesma `tag` (sem aviso em dobro). Sem ele,
+   cai para o `new Notification` simples.
+========================= */
+import type { Messages } from "@/lib/i18n";
+import {
+  MAX_EXTEND_MIN,
+  timerReducer,
+  type TimerFinish,
+  type TimerState,
+} from "@/lib/timer-engine";
+import type { NamedTimer } from "@/lib/timers";
+import { pad2 } from "@/lib/utils";
+
+/** minutos oferecidos em "+N min" e na soneca */
+export const DEFAULT_EXTEND_OPTIONS = [1, 5, 10];
+export const MAX_EXTEND_OPTIONS = 4;
+// fases futuras agendadas de uma vez (pomodoro com auto-início)
+const MAX_SCHEDULED_PER_TIMER = 4;
+// a maioria dos navegadores mostra só dois botões
+export const MAX_NOTICE_ACTIONS = 2;
+
+export type NoticeAction = "start-next" | `snooze-${number}`;
+
+export type NoticeData = {
+  timerId: string;
+  finished: Pick<TimerFinish, "mode" | "phase" | "cycleCount">;
+};
+
+export type Notice = {
+  tag: string;
+  /** quando deve aparecer (ms) */
+  at: number;
+  title: string;
+  body: string;
+  actions: { action: NoticeAction; title: string }[];
+  data: NoticeData;
+};
+
+export async function requestNotificationPermission(): Promise<
+  NotificationPermission | "unsupported"
+> {
+  if (typeof window === "undefined") return "unsupported";
+  if (!("Notification" in window)) return "unsupported";
+  if (Notification.permission === "granted") return "granted";
+  if (Notification.permission === "denied") return "denied";
+  return Notification.requestPermission();
+}
+
+export function canNotify() {
+  return "Notification" in window && Notification.permission === "granted";
+}
+
+/** Sem repetidos, em ordem, dentro dos limites; vazio volta ao padrão. */
+export function normalizeExtendOptions(minutes: number[]): number[] {
+  const list = [
+    ...new Set(
+      minutes
+        .filter((m) => Number.isFinite(m))
+        .map((m) => Math.round(m))
+        .filter((m) => m >= 1 && m <= MAX_EXTEND_MIN),
+    ),
+  ]
+    .sort((a, b) => a - b)
+    .slice(0, MAX_EXTEND_OPTIONS);
+  return list.length ? list : DEFAULT_EXTEND_OPTIONS;
+}
+
+/** Minutos da soneca de um botão de notificação (`null` se não for soneca). */
+export function snoozeMinutes(action: string): number | null {
+  const m = /^snooze-(\d+)$/.exec(action);
+  return m ? Number(m[1]) : null;
+}
+
+/**
+ * Aviso de término, montado a partir do estado logo após o término.
+ * `task` é o título da tarefa ativa (só aparece no pomodoro).
+ */
+export function finishNotice(
+  timer: Pick<NamedTimer, "id" | "name">,
+  after: TimerState,
+  t: Messages,
+  extendOptions = DEFAULT_EXTEND_OPTIONS,
+  task: string | null = null,
+): Notice | null {
+  const done = after.lastFinish;
+  if (!done) return null;
+
+  const target = new Date(done.targetMs);
+  const title =
+    done.mode === "pomodoro"
+      ? t.notifications.pomodoroFinished
+      : t.notifications.timerFinished;
+  const body =
+    done.mode === "pomodoro"
+      ? t.notifications.phase(t.phase[done.phase]) +
+        (task ? ` · ${t.notifications.task(task)}` : "")
+      : t.notifications.target(
+          `${pad2(target.getHours())}:${pad2(target.getMinutes())}`,
+        );
+
+  const actions: Notice["actions"] = [];
+  if (after.status === "ready") {
+    actions.push({
+      action: "start-next",
+      title: t.notifications.startNext(
+        t.phase[after.pomodoro.phase].toLowerCase(),
+      ),
+    });
+  }
+  for (const min of extendOptions) {
+    if (actions.length >= MAX_NOTICE_ACTIONS) break;
+    actions.push({
+      action: `snooze-${min}`,
+      title: t.notifications.snooze(min),
+    });
+  }
+
+  return {
+    tag: `timer-${timer.id}-${done.targetMs}`,
+    at: done.targetMs,
+    title: `${timer.name} · ${title}`,
+    body,
+    actions,
+    data: {
+      timerId: timer.id,
+      finished: {
+        mode: done.mode,
+        phase: done.phase,
+        cycleCount: done.cycleCount,
+      },
+    },
+  };
+}
+
+/**
+ * Próximos avisos de um timer rodando, simulando o motor até cada alvo
+ * (o pomodoro com auto-início emenda várias fases sem a página aberta).
+ */
+export function scheduledNotices(
+  timer: NamedTimer,
+  t: Messages,
+  extendOptions = DEFAULT_EXTEND_OPTIONS,
+  task: string | null = null,
+): Notice[] {
+  const notices: Notice[] = [];
+  let state = timer.timer;
+  for (let i = 0; i < MAX_SCHEDULED_PER_TIMER; i++) {
+    if (state.status !== "running") break;
+    const before = state.lastFinish;
+    state = timerReducer(state, { type: "tick", at: state.targetMs });
+    // cronômetro não termina
+    if (state.lastFinish === before) break;
+    const notice = finishNotice(timer, state, t, extendOptions, task);
+    if (notice) notices.push(notice);
+  }
+  return notices;
+}
+
+type ShowOptions = NotificationOptions & {
+  actions?: Notice["actions"];
+};
+
+/** Mostra na hora; `notice` traz tag/ações quando vier de um término. */
+export function notify(title: string, body: string, notice?: Notice) {
+  if (!canNotify()) return;
+
+  const options: ShowOptions = {
+    body,
+    icon: "/icon-192.png",
+    tag: notice?.tag,
+    data: notice?.data,
+  };
+
+  const fallback = () => {
+    try {
+      new Notification(title, options);
+    } catch {
+      // ignore
+    }
+  };
+
+  if (!("serviceWorker" in navigator)) return fallback();
+  navigator.serviceWorker
+    .getRegistration()
+    .then((reg) => {
+      if (!reg?.active) return fallback();
+      const withActions: ShowOptions = {
+        ...options,
+        actions: notice?.actions,
+      };
+      return reg.showNotification(title, withActions);
+    })
+    .catch(fallback);
+}
@@ -0,0 +1,619 @@
+/* =========================
+   Partículas do fundo
+
+   Simulação e desenho num canvas 2D, iguais na thread principal e no
+   worker (com OffscreenCanvas). As ligações são procuradas numa grade
+   com células do tamanho da distância máxima, então cada partícula só
+   olha as vizinhas; traços e pontos saem em lote, um caminho por faixa
+   de opacidade. O número de partículas se ajusta ao tempo de quadro.
+   Cor e física vêm do tema; o timer tinge, acelera, faz respirar e
+   solta fogos (veja `ParticleSignal`).
+========================= */
+import type { ParticleMode } from "@/lib/storage";
+import { asRecord, readBoolean } from "@/lib/validate";
+
+export const PARTICLE_CONFIG = {
+  density: 0.00009,
+  maxParticles: 170,
+  minParticles: 30,
+  linkDist: 150,
+  speed: 0.42,
+  drift: 0.1,
+  radiusMin: 1.0,
+  radiusMax: 2.9,
+
+  influenceRadius: 190,
+  force: 0.09,
+  mouseBoostLinks: 0.4,
+  friction: 0.985,
+  maxV: 1.3,
+};
+
+/** Parte da física que o tema pode mudar. */
+export type ParticlePhysics = Pick<
+  typeof PARTICLE_CONFIG,
+  "density" | "linkDist" | "speed" | "force"
+>;
+
+/** Reações do fundo ao timer; cada uma liga e desliga sozinha. */
+export type ParticleEffects = {
+  /** cor segue a fase do pomodoro */
+  phaseColors: boolean;
+  /** acelera e tinge perto do fim */
+  urgency: boolean;
+  /** fogos quando a contagem termina */
+  burst: boolean;
+  /** respiração lenta nas pausas */
+  breathing: boolean;
+};
+
+export const DEFAULT_PARTICLE_EFFECTS: ParticleEffects = {
+  phaseColors: true,
+  urgency: true,
+  burst: true,
+  breathing: true,
+};
+
+export const PARTICLE_EFFECTS = Object.keys(
+  DEFAULT_PARTICLE_EFFECTS,
+) as (keyof ParticleEffects)[];
+
+export function validateParticleEffects(raw: unknown): ParticleEffects {
+  const r = asRecord(raw);
+  const effects = { ...DEFAULT_PARTICLE_EFFECTS };
+  for (const key of PARTICLE_EFFECTS) {
+    effects[key] = readBoolean(r[key], effects[key]);
+  }
+  return effects;
+}
+
+/** O que o timer pede ao fundo, já resolvido em cores "r,g,b". */
+export type ParticleSignal = {
+  /** cor da fase; `null` fica com a cor do tema */
+  tint: string | null;
+  /** cor de alerta, misturada conforme `pressure` */
+  alert: string;
+  /** 0 a 1: quanto mais perto do fim, mais rápido e mais tingido */
+  pressure: number;
+  breathing: boolean;
+};
+
+const IDLE_SIGNAL: ParticleSignal = {
+  tint: null,
+  alert: "255,255,255",
+  pressure: 0,
+  breathing: false,
+};
+
+// faixas de opacidade: um stroke/fill por faixa em vez de um por item
+const LINK_BUCKETS = 12;
+const DOT_BUCKETS = 8;
+const DOT_ALPHA_MIN = 0.22;
+const DOT_ALPHA_MAX = 0.65;
+const LINK_ALPHA_MAX = 0.2 + PARTICLE_CONFIG.mouseBoostLinks * 0.18;
+
+// orçamento: custo médio de um quadro (ms) que dispara o ajuste
+const FRAME_BUDGET_MS = 6;
+const BUDGET_CHECK_FRAMES = 60;
+const FRAME_MS = 1000 / 60;
+
+// reações ao timer
+const COLOR_EASE = 0.04;
+const ALERT_MIX = 0.75;
+const PRESSURE_SPEEDUP = 1.6;
+const BREATH_MS = 8000;
+const BREATH_PACE = 0.45;
+/** quanto a nuvem incha a partir do centro, em fração da distância */
+const BREATH_AMPLITUDE = 0.05;
+const BREATH_RADIUS = 0.35;
+
+// fogos do término
+const BURST_ORIGINS = 3;
+const BURST_SPARKS = 48;
+const BURST_KICK = 1.2;
+const MAX_SPARKS = 600;
+const SPARK_FRAMES = 75;
+const SPARK_DRAG = 0.96;
+const SPARK_GRAVITY = 0.04;
+const SPARK_BUCKETS = 6;
+
+export type ParticleField = {
+  resize: (width: number, height: number, dpr: number) => void;
+  setMode: (mode: ParticleMode) => void;
+  /** `color` em "r,g,b" */
+  setStyle: (color: string, physics: ParticlePhysics) => void;
+  setSignal: (signal: ParticleSignal) => void;
+  /** fogos: o timer acabou */
+  burst: () => void;
+  setPointer: (x: number, y: number, active: boolean) => void;
+  /** aba escondida: para o laço */
+  setRunning: (running: boolean) => void;
+  /** movimento reduzido: um quadro parado, sem animação */
+  setStill: (still: boolean) => void;
+  destroy: () => void;
+};
+
+/** Mensagens que a página manda para o campo (direto ou via worker). */
+export type ParticleMessage =
+  | { type: "resize"; width: number; height: number; dpr: number }
+  | { type: "mode"; mode: ParticleMode }
+  | { type: "style"; color: string; physics: ParticlePhysics }
+  | { type: "signal"; signal: ParticleSignal }
+  | { type: "burst" }
+  | { type: "pointer"; x: number; y: number; active: boolean }
+  | { type: "running"; running: boolean }
+  | { type: "still"; still: boolean };
+
+export function applyParticleMessage(
+  field: ParticleField,
+  msg: ParticleMessage,
+) {
+  switch (msg.type) {
+    case "resize":
+      return field.resize(msg.width, msg.height, msg.dpr);
+    case "mode":
+      return field.setMode(msg.mode);
+    case "style":
+      return field.setStyle(msg.color, msg.physics);
+    case "signal":
+      return field.setSignal(msg.signal);
+    case "burst":
+      return field.burst();
+    case "pointer":
+      return field.setPointer(msg.x, msg.y, msg.active);
+    case "running":
+      return field.setRunning(msg.running);
+    case "still":
+      return field.setStill(msg.still);
+  }
+}
+
+type RGB = [number, number, number];
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type Particle = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  r: number;
+  /** faixa de opacidade do ponto */
+  bucket: number;
+};
+
+/** Fagulha dos fogos; some quando `life` chega a zero. */
+type Spark = { x: number; y: number; vx: number; vy: number; life: number };
+
+const parseRgb = (s: string) => s.split(",").map(Number) as RGB;
+
+const rand = (min: number, max: number) => min + Math.random() * (max - min);
+
+const clampV = (v: number) =>
+  Math.max(-PARTICLE_CONFIG.maxV, Math.min(PARTICLE_CONFIG.maxV, v));
+
+const frame =
+  typeof requestAnimationFrame === "function"
+    ? (cb: (t: number) => void) => requestAnimationFrame(cb)
+    : (cb: (t: number) => void) =>
+        setTimeout(() => cb(performance.now()), FRAME_MS) as unknown as number;
+
+const cancelFrame =
+  typeof cancelAnimationFrame === "function"
+    ? (id: number) => cancelAnimationFrame(id)
+    : (id: number) => clearTimeout(id);
+
+export function createParticleField(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+): ParticleField | null {
+  const context = canvas.getContext("2d") as Canvas2D | null;
+  if (!context) return null;
+  const ctx: Canvas2D = context;
+
+  let cfg = { ...PARTICLE_CONFIG };
+  let base: RGB = [255, 255, 255];
+  let signal = IDLE_SIGNAL;
+  let target: RGB = base;
+  const shown: RGB = [...base];
+  let color = "255,255,255";
+  // 0 a 1: entra e sai da respiração sem salto
+  let breath = 0;
+  let clock = 0;
+  let w = 0;
+  let h = 0;
+  let mode: ParticleMode = "repel";
+  const pointer = { x: 0, y: 0, active: false };
+  let running = true;
+  let still = false;
+  let raf: number | null = null;
+  let lastFrame = 0;
+
+  const particles: Particle[] = [];
+  const sparks: Spark[] = [];
+  let budget = cfg.maxParticles;
+  let frameCost = 0;
+  let framesSinceCheck = 0;
+
+  // grade reaproveitada entre quadros
+  let cols = 0;
+  let rows = 0;
+  let cellStart = new Int32Array(0);
+  let cellOf = new Int32Array(0);
+  let order = new Int32Array(0);
+  let boost = new Float32Array(0);
+  const links: number[][] = Array.from({ length: LINK_BUCKETS }, () => []);
+  const dots: Particle[][] = Array.from({ length: DOT_BUCKETS }, () => []);
+  const sparkBands: Spark[][] = Array.from({ length: SPARK_BUCKETS }, () => []);
+
+  const spawn = (): Particle => {
+    const angle = rand(0, Math.PI * 2);
+    const sp = cfg.speed * rand(0.55, 1.45);
+    return {
+      x: rand(0, w || 900),
+      y: rand(0, h || 600),
+      vx: Math.cos(angle) * sp + rand(-cfg.drift, cfg.drift),
+      vy: Math.sin(angle) * sp + rand(-cfg.drift, cfg.drift),
+      r: rand(cfg.radiusMin, cfg.radiusMax),
+      bucket: Math.floor(Math.random() * DOT_BUCKETS),
+    };
+  };
+
+  function fitCount() {
+    const wanted = Math.max(cfg.minParticles, Math.floor(w * h * cfg.density));
+    const desired = Math.min(budget, cfg.maxParticles, wanted);
+    while (particles.length < desired) particles.push(spawn());
+    if (particles.length > desired) particles.length = desired;
+    if (cellOf.length < desired) {
+      cellOf = new Int32Array(cfg.maxParticles);
+      order = new Int32Array(cfg.maxParticles);
+      boost = new Float32Array(cfg.maxParticles);
+    }
+  }
+
+  /** Cor final: a da fase (ou do tema) puxada para o alerta. */
+  function retarget() {
+    const from = signal.tint ? parseRgb(signal.tint) : base;
+    const alert = parseRgb(signal.alert);
+    const mix = signal.pressure * ALERT_MIX;
+    target = from.map((c, i) => c + (alert[i] - c) * mix) as RGB;
+  }
+
+  function ease(k: number) {
+    const a = still ? 1 : 1 - Math.pow(1 - COLOR_EASE, k);
+    for (let i = 0; i < 3; i++) shown[i] += (target[i] - shown[i]) * a;
+    color = shown.map(Math.round).join(",");
+    const want = signal.breathing ? 1 : 0;
+    breath = still ? 0 : breath + (want - breath) * a;
+  }
+
+  function buildGrid() {
+    const n = particles.length;
+    const cell = cfg.linkDist;
+    // as partículas andam até 10 px fora da tela antes de dar a volta
+    cols = Math.max(1, Math.ceil((w + 20) / cell));
+    rows = Math.max(1, Math.ceil((h + 20) / cell));
+    const cells = cols * rows;
+    if (cellStart.length !== cells + 1) cellStart = new Int32Array(cells + 1);
+    else cellStart.fill(0);
+
+    for (let i = 0; i < n; i++) {
+      const p = particles[i];
+      const cx = Math.min(cols - 1, Math.max(0, Math.floor((p.x + 10) / cell)));
+      const cy = Math.min(rows - 1, Math.max(0, Math.floor((p.y + 10) / cell)));
+      const c = cy * cols + cx;
+      cellOf[i] = c;
+      cellStart[c + 1]++;
+    }
+    for (let c = 0; c < cells; c++) cellStart[c + 1] += cellStart[c];
+    const fill = cellStart.slice(0, cells);
+    for (let i = 0; i < n; i++) order[fill[cellOf[i]]++] = i;
+  }
+
+  function addLink(a: Particle, b: Particle, ia: number, ib: number) {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const d2 = dx * dx + dy * dy;
+    if (d2 >= cfg.linkDist * cfg.linkDist) return;
+    const base = (1 - Math.sqrt(d2) / cfg.linkDist) * 0.2;
+    const alpha =
+      base + Math.max(boost[ia], boost[ib]) * cfg.mouseBoostLinks * 0.18;
+    const k = Math.min(
+      LINK_BUCKETS - 1,
+      Math.floor((alpha / LINK_ALPHA_MAX) * LINK_BUCKETS),
+    );
+    links[k].push(a.x, a.y, b.x, b.y);
+  }
+
+  function collectLinks() {
+    for (const bucket of links) bucket.length = 0;
+    // cada par uma vez: a própria célula e as 4 vizinhas "para frente"
+    const forward = [
+      [1, 0],
+      [-1, 1],
+      [0, 1],
+      [1, 1],
+    ];
+    for (let cy = 0; cy < rows; cy++) {
+      for (let cx = 0; cx < cols; cx++) {
+        const c = cy * cols + cx;
+        const start = cellStart[c];
+        const end = cellStart[c + 1];
+        for (let s = start; s < end; s++) {
+          const ia = order[s];
+          const a = particles[ia];
+          for (let u = s + 1; u < end; u++) {
+            addLink(a, particles[order[u]], ia, order[u]);
+          }
+          for (const [ox, oy] of forward) {
+            const nx = cx + ox;
+            const ny = cy + oy;
+            if (nx < 0 || nx >= cols || ny >= rows) continue;
+            const nc = ny * cols + nx;
+            for (let u = cellStart[nc]; u < cellStart[nc + 1]; u++) {
+              addLink(a, particles[order[u]], ia, order[u]);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /** `k`: quadros de 60 fps que se passaram. */
+  function move(k: number) {
+    const friction = Math.pow(cfg.friction, k);
+    const dir = mode === "repel" ? 1 : -1;
+    // perto do fim tudo corre; na pausa tudo desacelera
+    const pace =
+      k *
+      (1 + signal.pressure * PRESSURE_SPEEDUP) *
+      (1 - breath * (1 - BREATH_PACE));
+    // derivada do seno: a nuvem incha e murcha sem ir a lugar nenhum
+    const omega = (Math.PI * 2) / BREATH_MS;
+    const swell =
+      breath * BREATH_AMPLITUDE * omega * FRAME_MS * Math.cos(clock * omega);
+    const cx = w / 2;
+    const cy = h / 2;
+
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      boost[i] = 0;
+
+      if (pointer.active) {
+        const dx = p.x - pointer.x;
+        const dy = p.y - pointer.y;
+        const dist = Math.hypot(dx, dy);
+
+        if (dist < cfg.influenceRadius && dist > 0.001) {
+          const s = 1 - dist / cfg.influenceRadius;
+          const push = cfg.force * (s * s) * 60 * k;
+          p.vx += dir * (dx / dist) * push;
+          p.vy += dir * (dy / dist) * push;
+        }
+        boost[i] = Math.max(0, 1 - dist / (cfg.influenceRadius * 1.2));
+      }
+
+      p.vx = clampV(p.vx * friction);
+      p.vy = clampV(p.vy * friction);
+      p.x += p.vx * pace + (p.x - cx) * swell * k;
+      p.y += p.vy * pace + (p.y - cy) * swell * k;
+
+      if (p.x < -10) p.x = w + 10;
+      if (p.x > w + 10) p.x = -10;
+      if (p.y < -10) p.y = h + 10;
+      if (p.y > h + 10) p.y = -10;
+    }
+  }
+
+  function moveSparks(k: number) {
+    const drag = Math.pow(SPARK_DRAG, k);
+    let alive = 0;
+    for (const s of sparks) {
+      s.life -= k / SPARK_FRAMES;
+      if (s.life <= 0) continue;
+      s.vx *= drag;
+      s.vy = s.vy * drag + SPARK_GRAVITY * k;
+      s.x += s.vx * k;
+      s.y += s.vy * k;
+      sparks[alive++] = s;
+    }
+    sparks.length = alive;
+  }
+
+  function drawSparks() {
+    if (!sparks.length) return;
+    for (const band of sparkBands) band.length = 0;
+    for (const s of sparks) {
+      sparkBands[
+        Math.min(SPARK_BUCKETS - 1, Math.floor(s.life * SPARK_BUCKETS))
+      ].push(s);
+    }
+    for (let k = 0; k < SPARK_BUCKETS; k++) {
+      if (!sparkBands[k].length) continue;
+      const alpha = ((k + 1) / SPARK_BUCKETS) * 0.9;
+      ctx.fillStyle = `rgba(${color},${alpha.toFixed(3)})`;
+      ctx.beginPath();
+      for (const s of sparkBands[k]) {
+        ctx.moveTo(s.x + 1.6, s.y);
+        ctx.arc(s.x, s.y, 1.6, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    }
+  }
+
+  function draw() {
+    ctx.clearRect(0, 0, w, h);
+    buildGrid();
+    collectLinks();
+
+    ctx.lineWidth = 1;
+    for (let k = 0; k < LINK_BUCKETS; k++) {
+      const seg = links[k];
+      if (!seg.length) continue;
+      const alpha = ((k + 0.5) / LINK_BUCKETS) * LINK_ALPHA_MAX;
+      ctx.strokeStyle = `rgba(${color},${alpha.toFixed(3)})`;
+      ctx.beginPath();
+      for (let s = 0; s < seg.length; s += 4) {
+        ctx.moveTo(seg[s], seg[s + 1]);
+        ctx.lineTo(seg[s + 2], seg[s + 3]);
+      }
+      ctx.stroke();
+    }
+
+    for (const bucket of dots) bucket.length = 0;
+    for (const p of particles) dots[p.bucket].push(p);
+    // na respiração os pontos pulsam junto com a nuvem
+    const scale =
+      1 + breath * BREATH_RADIUS * Math.sin((clock * Math.PI * 2) / BREATH_MS);
+    for (let k = 0; k < DOT_BUCKETS; k++) {
+      if (!dots[k].length) continue;
+      const alpha =
+        DOT_ALPHA_MIN +
+        ((k + 0.5) / DOT_BUCKETS) * (DOT_ALPHA_MAX - DOT_ALPHA_MIN);
+      ctx.fillStyle = `rgba(${color},${alpha.toFixed(3)})`;
+      ctx.beginPath();
+      for (const p of dots[k]) {
+        const r = p.r * scale;
+        ctx.moveTo(p.x + r, p.y);
+        ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    }
+
+    drawSparks();
+  }
+
+  /** Corta ou devolve partículas conforme o custo médio dos quadros. */
+  function adapt(cost: number) {
+    frameCost = frameCost ? frameCost * 0.9 + cost * 0.1 : cost;
+    if (++framesSinceCheck < BUDGET_CHECK_FRAMES) return;
+    framesSinceCheck = 0;
+    if (frameCost > FRAME_BUDGET_MS) {
+      budget = Math.max(cfg.minParticles, Math.floor(particles.length * 0.85));
+    } else if (frameCost < FRAME_BUDGET_MS / 2) {
+      budget = Math.min(cfg.maxParticles, budget + 10);
+    }
+    fitCount();
+  }
+
+  function step(t: number) {
+    raf = null;
+    const dt = lastFrame ? t - lastFrame : FRAME_MS;
+    lastFrame = t;
+
+    // passo calibrado para 60 fps; telas de 120 Hz não aceleram nada
+    const k = Math.min(3, dt / FRAME_MS);
+    clock += dt;
+
+    const started = performance.now();
+    ease(k);
+    move(k);
+    moveSparks(k);
+    draw();
+    adapt(performance.now() - started);
+
+    schedule();
+  }
+
+  function schedule() {
+    if (raf !== null || !running || still || !w) return;
+    raf = frame(step);
+  }
+
+  function stop() {
+    if (raf !== null) cancelFrame(raf);
+    raf = null;
+    // sem salto ao voltar: o próximo quadro conta como um só
+    lastFrame = 0;
+  }
+
+  return {
+    resize(width, height, dpr) {
+      w = Math.max(1, Math.floor(width));
+      h = Math.max(1, Math.floor(height));
+      canvas.width = Math.floor(w * dpr);
+      canvas.height = Math.floor(h * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      fitCount();
+      if (still) draw();
+      schedule();
+    },
+    setMode(next) {
+      mode = next;
+    },
+    setStyle(nextColor, physics) {
+      base = parseRgb(nextColor);
+      retarget();
+      // as partículas que já existem mudam de ritmo sem renascer
+      const ratio = physics.speed / cfg.speed;
+      for (const p of particles) {
+        p.vx *= ratio;
+        p.vy *= ratio;
+      }
+      cfg = { ...PARTICLE_CONFIG, ...physics };
+      fitCount();
+      if (still && w) {
+        ease(1);
+        draw();
+      }
+    },
+    setSignal(next) {
+      signal = next;
+      retarget();
+      if (still && w) {
+        ease(1);
+        draw();
+      }
+    },
+    burst() {
+      // com movimento reduzido ou aba escondida não há fogos
+      if (still || !running || !w) return;
+      for (let o = 0; o < BURST_ORIGINS; o++) {
+        const ox = w * rand(0.2, 0.8);
+        const oy = h * rand(0.2, 0.6);
+        for (let i = 0; i < BURST_SPARKS; i++) {
+          const angle = (i / BURST_SPARKS) * Math.PI * 2 + rand(-0.1, 0.1);
+          const sp = rand(1.5, 5.5);
+          sparks.push({
+            x: ox,
+            y: oy,
+            vx: Math.cos(angle) * sp,
+            vy: Math.sin(angle) * sp,
+            life: rand(0.7, 1),
+          });
+        }
+      }
+      if (sparks.length > MAX_SPARKS)
+        sparks.splice(0, sparks.length - MAX_SPARKS);
+      // a nuvem também leva um empurrão a partir do centro
+      for (const p of particles) {
+        const dx = p.x - w / 2;
+        const dy = p.y - h / 2;
+        const d = Math.hypot(dx, dy) || 1;
+        p.vx += (dx / d) * BURST_KICK;
+        p.vy += (dy / d) * BURST_KICK;
+      }
+    },
+    setPointer(x, y, active) {
+      pointer.x = x;
+      pointer.y = y;
+      pointer.active = active;
+    },
+    setRunning(next) {
+      running = next;
+      if (running) schedule();
+      else stop();
+    },
+    setStill(next) {
+      still = next;
+      if (!still) return schedule();
+      stop();
+      sparks.length = 0;
+      ease(1);
+      if (w) draw();
+    },
+    destroy() {
+      running = false;
+      stop();
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/* =========================
+   Particles worker
+
+   Desenha o fundo num OffscreenCanvas fora da thread principal: a
+   página só repassa tamanho, ponteiro e visibilidade.
+========================= */
+import {
+  applyParticleMessage,
+  createParticleField,
+  type ParticleField,
+  type ParticleMessage,
+} from "@/lib/particles";
+
+export type ParticleWorkerIn =
+  { type: "init"; canvas: OffscreenCanvas } | ParticleMessage;
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<ParticleWorkerIn>) => void) | null;
+};
+
+let field: ParticleField | null = null;
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === "init") field = createParticleField(msg.canvas);
+  else if (field) applyParticleMessage(field, msg);
+};
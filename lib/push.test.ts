@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { Notice } from "@/lib/notifications";
+import {
+  createPushScheduler,
+  MAX_PUSH_AHEAD_MS,
+  validateSchedule,
+  type PushTarget,
+  type PushTimers,
+} from "@/lib/push";
+
+const MIN = 60 * 1000;
+const NOW = 1_000_000;
+
+const subscription: PushTarget = {
+  endpoint: "https://push.example/abc",
+  keys: { p256dh: "p256", auth: "auth" },
+};
+
+function notice(at: number, tag = `t-${at}`): Notice {
+  return {
+    tag,
+    at,
+    title: "Fim do foco",
+    body: "Hora da pausa",
+    actions: [{ action: "snooze-5", title: "Soneca +5 min" }],
+    data: {
+      timerId: "timer-1",
+      finished: { mode: "pomodoro", phase: "work", cycleCount: 1 },
+    },
+  };
+}
+
+/** Relógio e timeouts falsos: o teste decide quando o tempo anda. */
+function fakeTimers() {
+  let now = NOW;
+  let nextId = 0;
+  const pending = new Map<number, { at: number; fn: () => void }>();
+  const timers: PushTimers = {
+    now: () => now,
+    setTimeout: (fn, ms) => {
+      pending.set(++nextId, { at: now + ms, fn });
+      return nextId;
+    },
+    clearTimeout: (id) => pending.delete(id as number),
+  };
+  return {
+    timers,
+    pending,
+    advance(ms: number) {
+      now += ms;
+      for (const [id, t] of [...pending]) {
+        if (t.at > now) continue;
+        pending.delete(id);
+        t.fn();
+      }
+    },
+  };
+}
+
+describe("validateSchedule", () => {
+  it("keeps a well-formed schedule", () => {
+    const body = { subscription, notices: [notice(NOW + MIN)] };
+    expect(validateSchedule(JSON.parse(JSON.stringify(body)), NOW)).toEqual(
+      body,
+    );
+  });
+
+  it("rejects a subscription it cannot push to", () => {
+    const notices = [notice(NOW + MIN)];
+    for (const sub of [
+      null,
+      { ...subscription, endpoint: "http://push.example/abc" },
+      { ...subscription, keys: { p256dh: "p256" } },
+    ]) {
+      expect(validateSchedule({ subscription: sub, notices }, NOW)).toBeNull();
+    }
+    expect(validateSchedule({ subscription }, NOW)).toBeNull();
+  });
+
+  it("drops past, far-off and malformed notices", () => {
+    const schedule = validateSchedule(
+      {
+        subscription,
+        notices: [
+          notice(NOW - 1),
+          notice(NOW + MAX_PUSH_AHEAD_MS + 1),
+          { ...notice(NOW + MIN), title: "" },
+          { ...notice(NOW + MIN), data: {} },
+          {
+            ...notice(NOW + 2 * MIN),
+            actions: [{ action: "rm -rf", title: "x" }],
+          },
+        ],
+      },
+      NOW,
+    );
+    expect(schedule?.notices).toHaveLength(1);
+    expect(schedule?.notices[0]).toMatchObject({
+      at: NOW + 2 * MIN,
+      actions: [],
+    });
+  });
+});
+
+describe("createPushScheduler", () => {
+  it("delivers each notice at its time", async () => {
+    const clock = fakeTimers();
+    const sent: string[] = [];
+    const scheduler = createPushScheduler(async (_, n) => {
+      sent.push(n.tag);
+      return true;
+    }, clock.timers);
+    scheduler.schedule({
+      subscription,
+      notices: [notice(NOW + MIN, "a"), notice(NOW + 2 * MIN, "b")],
+    });
+
+    clock.advance(MIN - 1);
+    expect(sent).toEqual([]);
+    clock.advance(1);
+    expect(sent).toEqual(["a"]);
+    clock.advance(MIN);
+    expect(sent).toEqual(["a", "b"]);
+    expect(scheduler.size).toBe(0);
+  });
+
+  it("replaces the previous schedule of the same subscription", () => {
+    const clock = fakeTimers();
+    const sent: string[] = [];
+    const scheduler = createPushScheduler(async (_, n) => {
+      sent.push(n.tag);
+      return true;
+    }, clock.timers);
+    scheduler.schedule({ subscription, notices: [notice(NOW + MIN, "old")] });
+    scheduler.schedule({ subscription, notices: [] });
+    expect(clock.pending.size).toBe(0);
+    expect(scheduler.size).toBe(0);
+
+    clock.advance(MIN);
+    expect(sent).toEqual([]);
+  });
+
+  it("forgets a subscription the browser cancelled", async () => {
+    const clock = fakeTimers();
+    const scheduler = createPushScheduler(async () => false, clock.timers);
+    scheduler.schedule({
+      subscription,
+      notices: [notice(NOW + MIN), notice(NOW + 2 * MIN)],
+    });
+
+    clock.advance(MIN);
+    await Promise.resolve();
+    expect(scheduler.size).toBe(0);
+    expect(clock.pending.size).toBe(0);
+  });
+});
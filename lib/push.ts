@@ -0,0 +1,205 @@
+/* =========================
+   Web Push (avisos com o app fechado)
+
+   O service worker sozinho não acorda no horário: o setTimeout dele
+   morre junto com o worker. Com chaves VAPID configuradas, a página
+   assina o Push e manda a agenda para `PUSH_URL`; o servidor guarda os
+   avisos e, na hora, envia cada um pelo serviço de push do navegador,
+   que acorda o worker para mostrá-lo. Sem chaves (ou sem PushManager)
+   fica só a agenda local do worker, que precisa de uma aba aberta.
+========================= */
+import {
+  MAX_NOTICE_ACTIONS,
+  type Notice,
+  type NoticeAction,
+} from "@/lib/notifications";
+import { asRecord, readEnum, readInt, readString } from "@/lib/validate";
+
+export const PUSH_URL = "/api/push";
+// a página agenda poucos avisos por timer; mais que isso é abuso
+export const MAX_PUSH_NOTICES = 50;
+// alarme semanal + folga
+export const MAX_PUSH_AHEAD_MS = 8 * 24 * 60 * 60 * 1000;
+const MAX_TEXT = 300;
+
+export type PushTarget = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+export type PushSchedule = { subscription: PushTarget; notices: Notice[] };
+
+/** Chave pública VAPID (base64url); vazia desliga o push. */
+export function pushPublicKey() {
+  return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+}
+
+export function canPush() {
+  return (
+    !!pushPublicKey() &&
+    typeof window !== "undefined" &&
+    "PushManager" in window &&
+    "serviceWorker" in navigator
+  );
+}
+
+/* =========================
+   Assinatura (página)
+========================= */
+
+/**
+ * Manda a agenda para o servidor, assinando o Push se preciso. Agenda
+ * vazia sem assinatura não sai da página.
+ */
+export async function sendPushSchedule(
+  reg: ServiceWorkerRegistration,
+  notices: Notice[],
+) {
+  const existing = await reg.pushManager.getSubscription();
+  if (!existing && !notices.length) return;
+  const subscription =
+    existing ??
+    (await reg.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: pushPublicKey(),
+    }));
+  const res = await fetch(PUSH_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ subscription: subscription.toJSON(), notices }),
+  });
+  if (!res.ok) throw new Error(`push schedule: ${res.status}`);
+}
+
+/* =========================
+   Validation (servidor)
+========================= */
+function readText(v: unknown) {
+  const s = readString(v, "");
+  return s.length <= MAX_TEXT ? s : "";
+}
+
+function readAction(raw: unknown) {
+  const a = asRecord(raw);
+  const action = readText(a.action);
+  const title = readText(a.title);
+  if (!/^(start-next|snooze-\d{1,3})$/.test(action) || !title) return null;
+  return { action: action as NoticeAction, title };
+}
+
+function readNotice(raw: unknown, now: number): Notice | null {
+  const n = asRecord(raw);
+  const data = asRecord(n.data);
+  const finished = asRecord(data.finished);
+  const notice: Notice = {
+    tag: readText(n.tag),
+    at: readInt(n.at, now, now + MAX_PUSH_AHEAD_MS, -1),
+    title: readText(n.title),
+    body: readText(n.body),
+    actions: (Array.isArray(n.actions) ? n.actions : [])
+      .slice(0, MAX_NOTICE_ACTIONS)
+      .map(readAction)
+      .filter((a) => a !== null),
+    data: {
+      timerId: readText(data.timerId),
+      finished: {
+        mode: readEnum(
+          finished.mode,
+          ["horario", "pomodoro", "cronometro"],
+          "horario",
+        ),
+        phase: readEnum(finished.phase, ["work", "break", "longBreak"], "work"),
+        cycleCount: readInt(finished.cycleCount, 0, 99, 0),
+      },
+    },
+  };
+  return notice.tag && notice.at >= 0 && notice.title && notice.data.timerId
+    ? notice
+    : null;
+}
+
+/**
+ * Corpo de `POST PUSH_URL`. Assinatura inválida derruba tudo; avisos
+ * vencidos, longe demais ou malformados só ficam de fora.
+ */
+export function validateSchedule(
+  raw: unknown,
+  now: number,
+): PushSchedule | null {
+  const body = asRecord(raw);
+  const sub = asRecord(body.subscription);
+  const keys = asRecord(sub.keys);
+  const endpoint = readString(sub.endpoint, "");
+  const p256dh = readString(keys.p256dh, "");
+  const auth = readString(keys.auth, "");
+  if (!endpoint.startsWith("https://") || !p256dh || !auth) return null;
+  if (!Array.isArray(body.notices)) return null;
+
+  return {
+    subscription: { endpoint, keys: { p256dh, auth } },
+    notices: body.notices
+      .slice(0, MAX_PUSH_NOTICES)
+      .map((n) => readNotice(n, now))
+      .filter((n) => n !== null),
+  };
+}
+
+/* =========================
+   Scheduler (servidor)
+========================= */
+export type PushTimers = {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (id: unknown) => void;
+};
+
+const systemTimers: PushTimers = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Uma agenda por assinatura (`endpoint`); cada `schedule` substitui a
+ * anterior, como a agenda local do worker. `deliver` devolve `false`
+ * quando a assinatura não existe mais, e ela sai da memória.
+ */
+export function createPushScheduler(
+  deliver: (target: PushTarget, notice: Notice) => Promise<boolean>,
+  timers: PushTimers = systemTimers,
+) {
+  const pending = new Map<string, Set<unknown>>();
+
+  const clear = (endpoint: string) => {
+    pending.get(endpoint)?.forEach(timers.clearTimeout);
+    pending.delete(endpoint);
+  };
+
+  return {
+    schedule({ subscription, notices }: PushSchedule) {
+      const { endpoint } = subscription;
+      clear(endpoint);
+
+      const ids = new Set<unknown>();
+      for (const notice of notices) {
+        const id = timers.setTimeout(
+          () => {
+            ids.delete(id);
+            if (!ids.size) pending.delete(endpoint);
+            void deliver(subscription, notice).then((alive) => {
+              if (!alive) clear(endpoint);
+            });
+          },
+          Math.max(0, notice.at - timers.now()),
+        );
+        ids.add(id);
+      }
+      if (ids.size) pending.set(endpoint, ids);
+    },
+
+    /** assinaturas com avisos pendentes */
+    get size() {
+      return pending.size;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { nextOccurrence, WORKDAYS } from "@/lib/schedule";
+
+describe("nextOccurrence", () => {
+  const rule = {
+    hh: 9,
+    mm: 0,
+    weekdays: WORKDAYS,
+    enabled: true,
+    zone: "America/Sao_Paulo",
+  };
+
+  it("skips the weekend", () => {
+    // sexta, 10:00 em São Paulo
+    const after = Date.UTC(2026, 0, 2, 13, 0);
+    expect(nextOccurrence(rule, after)).toBe(Date.UTC(2026, 0, 5, 12, 0));
+  });
+
+  it("is strictly after the given instant", () => {
+    const at = Date.UTC(2026, 0, 5, 12, 0);
+    expect(nextOccurrence(rule, at)).toBe(Date.UTC(2026, 0, 6, 12, 0));
+  });
+});
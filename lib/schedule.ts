@@ -0,0 +1,68 @@
+/* =========================
+   Alarmes recorrentes
+
+   Um timer de horário com regra de repetição: ao disparar, o motor arma
+   sozinho a próxima ocorrência. As contas são feitas no fuso do alarme
+   (ou no local), então a troca de horário de verão cai no horário de
+   parede certo.
+========================= */
+import type { Messages } from "@/lib/i18n";
+import {
+  localZone,
+  weekdayOf,
+  zonedParts,
+  zonedTimeToMs,
+} from "@/lib/timezone";
+import { pad2 } from "@/lib/utils";
+
+export type RepeatRule = {
+  hh: number;
+  mm: number;
+  /** 0 = domingo … 6 = sábado; vazio = todos os dias */
+  weekdays: number[];
+  enabled: boolean;
+  /** fuso IANA; sem ele, o fuso local */
+  zone?: string;
+};
+
+export const WORKDAYS = [1, 2, 3, 4, 5];
+
+export const DEFAULT_REPEAT: RepeatRule = {
+  hh: 9,
+  mm: 0,
+  weekdays: WORKDAYS,
+  enabled: true,
+};
+
+/** Próxima ocorrência estritamente depois de `afterMs`. */
+export function nextOccurrence(rule: RepeatRule, afterMs: number) {
+  const zone = rule.zone ?? localZone();
+  const today = zonedParts(afterMs, zone);
+  for (let i = 0; i <= 7; i++) {
+    const day = {
+      ...today,
+      day: today.day + i,
+      hour: rule.hh,
+      minute: rule.mm,
+    };
+    const t = zonedTimeToMs({ ...day, second: 0 }, zone);
+    const weekday = weekdayOf(day.year, day.month, day.day);
+    const dayOk = !rule.weekdays.length || rule.weekdays.includes(weekday);
+    if (dayOk && t > afterMs) return t;
+  }
+  // inalcançável com dias válidos; evita alvo no passado
+  return afterMs + 24 * 60 * 60 * 1000;
+}
+
+export function describeWeekdays(weekdays: number[], t: Messages) {
+  const days = [...weekdays].sort();
+  if (!days.length || days.length === 7) return t.schedule.everyDay;
+  if (days.join() === WORKDAYS.join()) return t.schedule.workdays;
+  if (days.join() === "0,6") return t.schedule.weekends;
+  return days.map((d) => t.schedule.weekdayNames[d]).join(", ");
+}
+
+export function describeRepeat(rule: RepeatRule, t: Messages) {
+  const zone = rule.zone ? ` (${rule.zone})` : "";
+  return `${pad2(rule.hh)}:${pad2(rule.mm)}${zone} · ${describeWeekdays(rule.weekdays, t)}`;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  actionForKey,
+  bindShortcut,
+  DEFAULT_SHORTCUTS,
+  fuzzyFilter,
+  fuzzyScore,
+  keyFromEvent,
+  validateShortcuts,
+} from "@/lib/shortcuts";
+
+function key(k: string, mods: Partial<Record<string, boolean>> = {}) {
+  return keyFromEvent({
+    key: k,
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    ...mods,
+  });
+}
+
+describe("keyFromEvent", () => {
+  it("normalizes letters, space and shifted keys", () => {
+    expect(key("r")).toBe("R");
+    expect(key(" ")).toBe("Space");
+    expect(key("R", { shiftKey: true })).toBe("Shift+R");
+    expect(key("ArrowUp", { shiftKey: true })).toBe("Shift+ArrowUp");
+    // o caractere já carrega o Shift
+    expect(key("!", { shiftKey: true })).toBe("!");
+  });
+
+  it("leaves Ctrl/Cmd/Alt and bare modifiers to the browser", () => {
+    expect(key("k", { ctrlKey: true })).toBeNull();
+    expect(key("k", { metaKey: true })).toBeNull();
+    expect(key("k", { altKey: true })).toBeNull();
+    expect(key("Shift", { shiftKey: true })).toBeNull();
+  });
+});
+
+describe("bindShortcut", () => {
+  it("takes the key away from the action that had it", () => {
+    const next = bindShortcut(DEFAULT_SHORTCUTS, "presentation", "R");
+    expect(next.presentation).toBe("R");
+    expect(next.reset).toBe("");
+    expect(actionForKey(next, "R")).toBe("presentation");
+    expect(actionForKey(next, "F")).toBeNull();
+  });
+
+  it("validates stored keys without duplicates", () => {
+    const shortcuts = validateShortcuts({
+      reset: "W",
+      "toggle-sound": "",
+      unknown: "X",
+      presentation: 42,
+    });
+    expect(shortcuts.reset).toBe("W");
+    expect(shortcuts["start-work"]).toBe("");
+    expect(shortcuts["toggle-sound"]).toBe("");
+    expect(shortcuts.presentation).toBe("F");
+  });
+});
+
+describe("fuzzy search", () => {
+  it("needs the letters in order, ignoring case and accents", () => {
+    expect(fuzzyScore("pausa", "Iniciar pausa longa")).not.toBeNull();
+    expect(fuzzyScore("ÁSUA", "pausa")).toBeNull();
+    expect(fuzzyScore("sessao", "Sessão")).not.toBeNull();
+    expect(fuzzyScore("", "qualquer")).toBe(0);
+  });
+
+  it("ranks word starts and runs first, keeping ties in order", () => {
+    const items = ["Trocar modo", "Tema escuro", "Iniciar trabalho", "Tm"];
+    expect(fuzzyFilter(items, "tm", (s) => s)).toEqual([
+      "Tm",
+      "Tema escuro",
+      "Trocar modo",
+    ]);
+    expect(fuzzyFilter(items, "trab", (s) => s)).toEqual(["Iniciar trabalho"]);
+  });
+});
@@ -0,0 +1,166 @@
+/* =========================
+   Atalhos de teclado
+
+   Cada ação global tem uma tecla configurável. As teclas são guardadas
+   no formato de `keyFromEvent` ("Space", "R", "Shift+R"...), sem
+   Ctrl/Cmd/Alt, que ficam para o navegador e para a paleta (Ctrl+K).
+========================= */
+import { asRecord } from "@/lib/validate";
+
+export type ShortcutAction =
+  | "toggle-pause"
+  | "reset"
+  | "start-work"
+  | "start-break"
+  | "start-long-break"
+  | "switch-mode"
+  | "toggle-sound"
+  | "toggle-particles"
+  | "presentation";
+
+export type Shortcuts = Record<ShortcutAction, string>;
+
+// nomes no catálogo de idioma (`shortcuts.actions`)
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  "toggle-pause",
+  "reset",
+  "start-work",
+  "start-break",
+  "start-long-break",
+  "switch-mode",
+  "toggle-sound",
+  "toggle-particles",
+  "presentation",
+];
+
+export const DEFAULT_SHORTCUTS: Shortcuts = {
+  "toggle-pause": "Space",
+  reset: "R",
+  "start-work": "W",
+  "start-break": "B",
+  "start-long-break": "L",
+  "switch-mode": "M",
+  "toggle-sound": "S",
+  "toggle-particles": "P",
+  presentation: "F",
+};
+
+// sozinhas não formam atalho
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta", "CapsLock"];
+
+/** Tecla normalizada; `null` com Ctrl/Cmd/Alt ou só modificador. */
+export function keyFromEvent(e: {
+  key: string;
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}): string | null {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key =
+    e.key === " " ? "Space" : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  // Shift+1 vira "!": o caractere já diz tudo
+  const shifted = e.shiftKey && (e.key.length > 1 || /[a-z]/i.test(e.key));
+  return shifted ? `Shift+${key}` : key;
+}
+
+/** Tecla pronta para exibir, com o nome do espaço no idioma atual. */
+export function formatKey(key: string, space: string) {
+  return key.replace("Space", space).replace("Escape", "Esc");
+}
+
+/** Foco num campo de texto: as teclas são do usuário, não atalhos. */
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLSelectElement) return true;
+  if (!(target instanceof HTMLInputElement)) return false;
+  return !["button", "checkbox", "radio", "range", "file"].includes(
+    target.type,
+  );
+}
+
+/** Troca a tecla de uma ação, tirando-a de quem a usava antes. */
+export function bindShortcut(
+  shortcuts: Shortcuts,
+  action: ShortcutAction,
+  key: string,
+): Shortcuts {
+  const next = { ...shortcuts };
+  for (const a of SHORTCUT_ACTIONS) {
+    if (next[a] === key) next[a] = "";
+  }
+  next[action] = key;
+  return next;
+}
+
+export function actionForKey(
+  shortcuts: Shortcuts,
+  key: string,
+): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find((a) => shortcuts[a] === key) ?? null;
+}
+
+export function validateShortcuts(raw: unknown): Shortcuts {
+  const r = asRecord(raw);
+  let shortcuts = { ...DEFAULT_SHORTCUTS };
+  for (const id of SHORTCUT_ACTIONS) {
+    const key = r[id];
+    // "" é um atalho desligado de propósito
+    if (typeof key === "string") shortcuts = bindShortcut(shortcuts, id, key);
+  }
+  return shortcuts;
+}
+
+/* =========================
+   Busca aproximada (paleta)
+========================= */
+function fold(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Pontua `text` para a consulta: as letras precisam aparecer em ordem;
+ * sequências seguidas e inícios de palavra valem mais. `null` se não casa.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = fold(query).replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = fold(text);
+
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const ch of q) {
+    const i = t.indexOf(ch, from);
+    if (i < 0) return null;
+    run = i === from ? run + 1 : 1;
+    score += run * 2;
+    if (i === 0 || t[i - 1] === " ") score += 3;
+    score -= Math.min(i - from, 5);
+    from = i + 1;
+  }
+  return score;
+}
+
+/** Itens que casam com a consulta, do melhor para o pior. */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  text: (item: T) => string,
+): T[] {
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: fuzzyScore(query, text(item)),
+    }))
+    .filter((m): m is typeof m & { score: number } => m.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((m) => m.item);
+}
@@ -0,0 +1,119 @@
+/* =========================
+   Sons do usuário (IndexedDB)
+
+   Arquivos de áudio enviados pelo usuário ficam no IndexedDB (o
+   localStorage não comporta blobs). As preferências guardam só o id.
+========================= */
+import { createTimerId } from "@/lib/timers";
+
+const DB_NAME = "temporizador";
+const DB_VERSION = 1;
+const STORE = "sounds";
+
+export const MAX_SOUND_BYTES = 5 * 1024 * 1024;
+
+export type StoredSound = {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+  createdAt: string;
+};
+
+export type SoundInfo = Omit<StoredSound, "blob">;
+
+/** motivos de recusa; o texto fica no catálogo (`sound.errors`) */
+export type SaveError = "not-audio" | "too-large" | "save-failed";
+
+export type SaveResult =
+  { ok: true; sound: SoundInfo } | { ok: false; error: SaveError };
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB indisponível"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function info(s: StoredSound): SoundInfo {
+  const { id, name, type, size, createdAt } = s;
+  return { id, name, type, size, createdAt };
+}
+
+export async function listSounds(): Promise<SoundInfo[]> {
+  try {
+    const all = await withStore<StoredSound[]>("readonly", (s) => s.getAll());
+    return all.map(info).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch {
+    return [];
+  }
+}
+
+export async function getSound(id: string): Promise<StoredSound | undefined> {
+  try {
+    return await withStore<StoredSound | undefined>("readonly", (s) =>
+      s.get(id),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveSound(file: File): Promise<SaveResult> {
+  if (!file.type.startsWith("audio/")) {
+    return { ok: false, error: "not-audio" };
+  }
+  if (file.size > MAX_SOUND_BYTES) {
+    return { ok: false, error: "too-large" };
+  }
+
+  const sound: StoredSound = {
+    id: createTimerId(),
+    name: file.name.replace(/\.[^.]+$/, "") || file.name,
+    type: file.type,
+    size: file.size,
+    blob: file,
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    await withStore("readwrite", (s) => s.put(sound));
+    return { ok: true, sound: info(sound) };
+  } catch {
+    return { ok: false, error: "save-failed" };
+  }
+}
+
+export async function deleteSound(id: string) {
+  try {
+    await withStore("readwrite", (s) => s.delete(id));
+  } catch {
+    // ignore
+  }
+}
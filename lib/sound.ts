@@ -0,0 +1,263 @@
+/* =========================
+   Sound (Web Audio)
+
+   Presets sintetizados na hora e sons enviados pelo usuário, tocados
+   num único AudioContext. O alarme pode tocar uma vez ou repetir até
+   alguém dispensar.
+========================= */
+import { getSound } from "@/lib/sound-store";
+import type { TimerFinish } from "@/lib/timer-engine";
+
+export type SoundPreset = "chime" | "bell" | "digital" | "ascending";
+/** preset ou `custom:<id>` de um som salvo no IndexedDB */
+export type SoundId = SoundPreset | `custom:${string}`;
+export type SoundEvent = "work" | "break" | "horario";
+
+export type SoundSettings = {
+  /** 0 a 100 */
+  volume: number;
+  repeatUntilAck: boolean;
+  work: SoundId;
+  break: SoundId;
+  horario: SoundId;
+};
+
+// nomes nos catálogos de idioma (`sound.presets` / `sound.events`)
+export const SOUND_PRESETS: SoundPreset[] = [
+  "chime",
+  "bell",
+  "digital",
+  "ascending",
+];
+
+export const SOUND_EVENTS: SoundEvent[] = ["work", "break", "horario"];
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  volume: 60,
+  repeatUntilAck: false,
+  work: "chime",
+  break: "ascending",
+  horario: "bell",
+};
+
+export const CUSTOM_PREFIX = "custom:";
+// intervalo entre toques quando repete até dispensar
+const RING_GAP_MS = 1200;
+// trava para não tocar para sempre com a página esquecida aberta
+const RING_MAX_MS = 5 * 60 * 1000;
+const CUSTOM_MAX_MS = 30 * 1000;
+
+export function isPreset(id: string): id is SoundPreset {
+  return SOUND_PRESETS.includes(id as SoundPreset);
+}
+
+export function soundEventFor(
+  done: Pick<TimerFinish, "mode" | "phase">,
+): SoundEvent | null {
+  if (done.mode === "horario") return "horario";
+  if (done.mode === "pomodoro") return done.phase === "work" ? "work" : "break";
+  return null;
+}
+
+/* =========================
+   AudioContext
+========================= */
+let ctx: AudioContext | null = null;
+
+function audioContext() {
+  if (ctx) return ctx;
+  const AudioCtx =
+    window.AudioContext ||
+    (window as Window & { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext;
+  if (!AudioCtx) return null;
+  ctx = new AudioCtx();
+  return ctx;
+}
+
+/** Chamar num gesto do usuário: o navegador só libera o áudio assim. */
+export function unlockAudio() {
+  const c = audioContext();
+  if (c?.state === "suspended") c.resume().catch(() => {});
+}
+
+/* =========================
+   Presets
+========================= */
+type Note = {
+  freq: number;
+  start: number;
+  duration: number;
+  gain: number;
+  type?: OscillatorType;
+};
+
+function playNotes(c: AudioContext, out: AudioNode, notes: Note[]) {
+  const t0 = c.currentTime + 0.02;
+  const oscillators = notes.map((n) => {
+    const o = c.createOscillator();
+    const g = c.createGain();
+    o.type = n.type ?? "sine";
+    o.frequency.value = n.freq;
+    g.gain.setValueAtTime(0.0001, t0 + n.start);
+    g.gain.exponentialRampToValueAtTime(n.gain, t0 + n.start + 0.01);
+    g.gain.exponentialRampToValueAtTime(0.0001, t0 + n.start + n.duration);
+    o.connect(g);
+    g.connect(out);
+    o.start(t0 + n.start);
+    o.stop(t0 + n.start + n.duration + 0.02);
+    return o;
+  });
+  const end = Math.max(...notes.map((n) => n.start + n.duration));
+  return { oscillators, durationMs: Math.ceil(end * 1000) + 20 };
+}
+
+function presetNotes(preset: SoundPreset): Note[] {
+  switch (preset) {
+    case "chime":
+      return [1046.5, 1318.5, 1568].map((freq, i) => ({
+        freq,
+        start: i * 0.16,
+        duration: 1.2,
+        gain: 0.25,
+      }));
+
+    case "bell":
+      // parciais inarmônicas dão o timbre de sino
+      return [1, 2, 2.76, 5.4].map((ratio, i) => ({
+        freq: 660 * ratio,
+        start: 0,
+        duration: 2 / (i + 1),
+        gain: 0.3 / (i + 1),
+      }));
+
+    case "digital":
+      return Array.from({ length: 8 }, (_, i) => ({
+        freq: 2000,
+        start: i * 0.15 + (i >= 4 ? 0.3 : 0),
+        duration: 0.08,
+        gain: 0.12,
+        type: "square" as const,
+      }));
+
+    case "ascending":
+      return [440, 554.4, 659.3, 784, 880].map((freq, i) => ({
+        freq,
+        start: i * 0.18,
+        duration: 0.3,
+        gain: 0.08 + i * 0.05,
+        type: "triangle" as const,
+      }));
+  }
+}
+
+/* =========================
+   Playback
+========================= */
+export type Playback = { stop: () => void; durationMs: number };
+
+const customBuffers = new Map<string, Promise<AudioBuffer | null>>();
+
+function customBuffer(c: AudioContext, id: string) {
+  let buf = customBuffers.get(id);
+  if (!buf) {
+    buf = getSound(id)
+      .then((s) => (s ? s.blob.arrayBuffer() : null))
+      .then((data) => (data ? c.decodeAudioData(data) : null))
+      .catch(() => null);
+    customBuffers.set(id, buf);
+  }
+  return buf;
+}
+
+/** Esquece o áudio decodificado (ex.: som apagado). */
+export function forgetCustomSound(id: string) {
+  customBuffers.delete(id);
+}
+
+/** Toca uma vez. Som do usuário que sumiu cai para o preset padrão. */
+export async function playSound(
+  id: SoundId,
+  volume: number,
+): Promise<Playback> {
+  const c = audioContext();
+  if (!c) return { stop: () => {}, durationMs: 0 };
+  unlockAudio();
+
+  const out = c.createGain();
+  out.gain.value = Math.max(0, Math.min(100, volume)) / 100;
+  out.connect(c.destination);
+  const release = () => setTimeout(() => out.disconnect(), 50);
+
+  if (!isPreset(id)) {
+    const buffer = await customBuffer(c, id.slice(CUSTOM_PREFIX.length));
+    if (buffer) {
+      const src = c.createBufferSource();
+      src.buffer = buffer;
+      src.connect(out);
+      src.start();
+      const durationMs = Math.min(buffer.duration * 1000, CUSTOM_MAX_MS);
+      const cap = setTimeout(() => src.stop(), durationMs);
+      return {
+        durationMs,
+        stop: () => {
+          clearTimeout(cap);
+          try {
+            src.stop();
+          } catch {
+            // já parou
+          }
+          release();
+        },
+      };
+    }
+    id = DEFAULT_SOUND_SETTINGS.horario;
+  }
+
+  const { oscillators, durationMs } = playNotes(
+    c,
+    out,
+    presetNotes(id as SoundPreset),
+  );
+  return {
+    durationMs,
+    stop: () => {
+      for (const o of oscillators) {
+        try {
+          o.stop();
+        } catch {
+          // já parou
+        }
+      }
+      release();
+    },
+  };
+}
+
+/** Repete o som até `stop()` (ou até o limite de segurança). */
+export function ringUntilAck(id: SoundId, volume: number) {
+  let current: Playback | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  const startedAt = Date.now();
+
+  const ring = async () => {
+    if (stopped) return;
+    if (Date.now() - startedAt > RING_MAX_MS) return;
+    current = await playSound(id, volume);
+    if (stopped) {
+      current.stop();
+      return;
+    }
+    timer = setTimeout(ring, current.durationMs + RING_GAP_MS);
+  };
+  void ring();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      current?.stop();
+    },
+  };
+}
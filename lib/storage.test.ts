@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { migrate, validateState } from "@/lib/storage";
+
+describe("migrate", () => {
+  it("turns the single v1 timer into the timer list", () => {
+    const state = validateState(
+      migrate(1, {
+        particleMode: "attract",
+        timeStr: "18:30",
+        timerMode: "pomodoro",
+        soundEnabled: false,
+      }),
+    );
+    expect(state.particleMode).toBe("attract");
+    expect(state.timeStr).toBe("18:30");
+    expect(state.soundEnabled).toBe(false);
+    expect(state.timers).toHaveLength(1);
+    expect(state.timers[0]).toMatchObject({
+      name: "Timer 1",
+      timerMode: "pomodoro",
+    });
+    expect(state.activeTimerId).toBe(state.timers[0].id);
+  });
+
+  it("drops data from an unknown version", () => {
+    expect(migrate(0, { timeStr: "07:00" })).toEqual({});
+  });
+});
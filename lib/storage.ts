@@ -0,0 +1,554 @@
+/* =========================
+   Persistência (localStorage)
+
+   O estado é salvo num envelope `{ version, data }`. Ao carregar,
+   dados antigos passam pela cadeia de migrações até a versão atual e
+   depois são validados campo a campo; o que estiver inválido volta
+   para o padrão em vez de derrubar o carregamento.
+========================= */
+import { LOCALES, type Locale } from "@/lib/i18n";
+import {
+  DEFAULT_EXTEND_OPTIONS,
+  normalizeExtendOptions,
+} from "@/lib/notifications";
+import {
+  DEFAULT_PARTICLE_EFFECTS,
+  validateParticleEffects,
+  type ParticleEffects,
+} from "@/lib/particles";
+import { DEFAULT_REPEAT, type RepeatRule } from "@/lib/schedule";
+import {
+  DEFAULT_SHORTCUTS,
+  validateShortcuts,
+  type Shortcuts,
+} from "@/lib/shortcuts";
+import {
+  CUSTOM_PREFIX,
+  DEFAULT_SOUND_SETTINGS,
+  isPreset,
+  type SoundId,
+  type SoundSettings,
+} from "@/lib/sound";
+import { validateTasks, type Task, type TasksState } from "@/lib/tasks";
+import {
+  DEFAULT_THEME_ID,
+  findTheme,
+  validateThemes,
+  type Theme,
+} from "@/lib/themes";
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  type PomodoroPhase,
+  type TimerMode,
+  type TimerSession,
+  type TimerState,
+} from "@/lib/timer-engine";
+import {
+  createTimerId,
+  defaultTargetMs,
+  type NamedTimer,
+  type TimersState,
+} from "@/lib/timers";
+import { canonicalZone } from "@/lib/timezone";
+import { pad2 } from "@/lib/utils";
+import {
+  asRecord,
+  readBoolean,
+  readEnum,
+  readISO,
+  readInt,
+  readString,
+} from "@/lib/validate";
+
+export const LS_KEY = "temporizador_state";
+export const SCHEMA_VERSION = 2;
+
+// chaves antigas, sem envelope: v1 = timer único, v2 = lista de timers
+const LEGACY_KEYS: { key: string; version: number }[] = [
+  { key: "timers_v2", version: 2 },
+  { key: "timer_v1", version: 1 },
+];
+
+export type ParticleMode = "repel" | "attract";
+
+export type PersistedTimer = {
+  id: string;
+  name: string;
+  timerMode: TimerMode;
+
+  targetISO?: string;
+  /** fuso IANA do alvo de horário */
+  targetZone?: string;
+  pausedAtISO?: string;
+
+  repeat?: RepeatRule;
+
+  /** cronômetro iniciado (`originISO` já descontadas as pausas) */
+  stopwatch?: {
+    originISO: string;
+    laps: number[];
+  };
+
+  session?: {
+    mode: TimerMode;
+    phase: PomodoroPhase;
+    startedAtISO: string;
+    plannedMs: number;
+    pausedMs: number;
+    extendedMs?: number;
+    snooze?: boolean;
+  };
+
+  pomodoro: {
+    enabled: boolean;
+    phase: PomodoroPhase;
+    cycleCount: number;
+    /** fase já escolhida, aguardando o usuário iniciar */
+    ready: boolean;
+    endISO?: string;
+    workMin: number;
+    breakMin: number;
+    longBreakMin: number;
+    longBreakEvery: number;
+    autoStartWork: boolean;
+    autoStartBreak: boolean;
+  };
+};
+
+export type PersistedState = {
+  particleMode: ParticleMode;
+  particlesEnabled: boolean;
+  particleEffects: ParticleEffects;
+  /** além do `prefers-reduced-motion` do sistema */
+  reduceMotion: boolean;
+  themeId: string;
+  customThemes: Theme[];
+  timeStr: string;
+
+  activeTimerId: string;
+  timers: PersistedTimer[];
+
+  tasks: Task[];
+  /** tarefa que recebe os pomodoros de trabalho */
+  activeTaskId: string | null;
+
+  soundEnabled: boolean;
+  sound: SoundSettings;
+  notificationsEnabled: boolean;
+  /** minutos dos botões "+N min" e da soneca */
+  extendOptions: number[];
+  shortcuts: Shortcuts;
+  /** `null` segue o idioma do navegador */
+  locale: Locale | null;
+};
+
+/** Preferências do app inteiro (as mesmas em todas as abas). */
+export type SharedPrefs = Pick<
+  PersistedState,
+  | "particleMode"
+  | "particlesEnabled"
+  | "particleEffects"
+  | "reduceMotion"
+  | "themeId"
+  | "customThemes"
+  | "soundEnabled"
+  | "sound"
+  | "notificationsEnabled"
+  | "extendOptions"
+  | "shortcuts"
+  | "locale"
+>;
+
+export const DEFAULT_PREFS: SharedPrefs = {
+  particleMode: "repel",
+  particlesEnabled: true,
+  particleEffects: DEFAULT_PARTICLE_EFFECTS,
+  reduceMotion: false,
+  themeId: DEFAULT_THEME_ID,
+  customThemes: [],
+  soundEnabled: true,
+  sound: DEFAULT_SOUND_SETTINGS,
+  notificationsEnabled: false,
+  extendOptions: DEFAULT_EXTEND_OPTIONS,
+  shortcuts: DEFAULT_SHORTCUTS,
+  locale: null,
+};
+
+type Envelope = { version: number; data: unknown };
+
+/* =========================
+   Migrations
+========================= */
+type Migration = (data: unknown) => unknown;
+
+/** `migrations[n]` leva dados da versão n para n + 1. */
+const migrations: Record<number, Migration> = {
+  // timer_v1 (timer único) → lista de timers
+  1: (data) => {
+    const v1 = asRecord(data);
+    const id = createTimerId();
+    return {
+      particleMode: v1.particleMode,
+      timeStr: v1.timeStr,
+      activeTimerId: id,
+      timers: [
+        {
+          id,
+          name: "Timer 1",
+          timerMode: v1.timerMode,
+          targetISO: v1.targetISO,
+          pausedAtISO: v1.pausedAtISO,
+          pomodoro: v1.pomodoro,
+        },
+      ],
+      soundEnabled: v1.soundEnabled,
+      notificationsEnabled: v1.notificationsEnabled,
+    };
+  },
+};
+
+export function migrate(version: number, data: unknown): unknown {
+  let v = version;
+  let d = data;
+  while (v < SCHEMA_VERSION) {
+    const step = migrations[v];
+    if (!step) return {};
+    d = step(d);
+    v++;
+  }
+  return d;
+}
+
+/* =========================
+   Validation
+========================= */
+const TIMER_MODES: TimerMode[] = ["horario", "pomodoro", "cronometro"];
+
+export function defaultTimeStr() {
+  const d = new Date();
+  d.setMinutes(d.getMinutes() + 5);
+  return `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+function validateSession(raw: unknown): PersistedTimer["session"] {
+  const s = asRecord(raw);
+  const startedAtISO = readISO(s.startedAtISO);
+  if (!startedAtISO) return undefined;
+  return {
+    mode: readEnum(s.mode, TIMER_MODES, "horario"),
+    phase: readEnum(s.phase, ["work", "break", "longBreak"], "work"),
+    startedAtISO,
+    plannedMs: readInt(s.plannedMs, 0, Infinity, 0),
+    pausedMs: readInt(s.pausedMs, 0, Infinity, 0),
+    extendedMs: readInt(s.extendedMs, 0, Infinity, 0),
+    snooze: readBoolean(s.snooze, false),
+  };
+}
+
+function validateStopwatch(raw: unknown): PersistedTimer["stopwatch"] {
+  const w = asRecord(raw);
+  const originISO = readISO(w.originISO);
+  if (!originISO) return undefined;
+  const laps = Array.isArray(w.laps) ? w.laps : [];
+  return {
+    originISO,
+    laps: laps.map((l) => readInt(l, 0, Infinity, -1)).filter((l) => l >= 0),
+  };
+}
+
+function readZone(v: unknown) {
+  return typeof v === "string" ? (canonicalZone(v) ?? undefined) : undefined;
+}
+
+function validateRepeat(raw: unknown): RepeatRule | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const r = asRecord(raw);
+  const weekdays = Array.isArray(r.weekdays) ? r.weekdays : [];
+  return {
+    hh: readInt(r.hh, 0, 23, DEFAULT_REPEAT.hh),
+    mm: readInt(r.mm, 0, 59, DEFAULT_REPEAT.mm),
+    weekdays: [...new Set(weekdays.map((d) => readInt(d, 0, 6, -1)))]
+      .filter((d) => d >= 0)
+      .sort(),
+    enabled: readBoolean(r.enabled, true),
+    zone: readZone(r.zone),
+  };
+}
+
+function validateTimer(raw: unknown, index: number): PersistedTimer {
+  const t = asRecord(raw);
+  const p = asRecord(t.pomodoro);
+  const d = DEFAULT_POMODORO_SETTINGS;
+  const longBreakEvery = readInt(p.longBreakEvery, 1, 12, d.longBreakEvery);
+  return {
+    id: readString(t.id, createTimerId()),
+    name: readString(t.name, `Timer ${index + 1}`),
+    timerMode: readEnum(t.timerMode, TIMER_MODES, "horario"),
+    targetISO: readISO(t.targetISO),
+    targetZone: readZone(t.targetZone),
+    pausedAtISO: readISO(t.pausedAtISO),
+    stopwatch: validateStopwatch(t.stopwatch),
+    repeat: validateRepeat(t.repeat),
+    session: validateSession(t.session),
+    pomodoro: {
+      enabled: readBoolean(p.enabled, false),
+      phase: readEnum(p.phase, ["work", "break", "longBreak"], "work"),
+      cycleCount: readInt(p.cycleCount, 0, longBreakEvery - 1, 0),
+      ready: readBoolean(p.ready, false),
+      endISO: readISO(p.endISO),
+      workMin: readInt(p.workMin, 1, 180, d.workMin),
+      breakMin: readInt(p.breakMin, 1, 60, d.breakMin),
+      longBreakMin: readInt(p.longBreakMin, 1, 120, d.longBreakMin),
+      longBreakEvery,
+      autoStartWork: readBoolean(p.autoStartWork, d.autoStartWork),
+      autoStartBreak: readBoolean(p.autoStartBreak, d.autoStartBreak),
+    },
+  };
+}
+
+function readSoundId(v: unknown, fallback: SoundId): SoundId {
+  if (typeof v !== "string") return fallback;
+  if (isPreset(v)) return v;
+  return v.startsWith(CUSTOM_PREFIX) && v.length > CUSTOM_PREFIX.length
+    ? (v as SoundId)
+    : fallback;
+}
+
+function validateSound(raw: unknown): SoundSettings {
+  const s = asRecord(raw);
+  const d = DEFAULT_SOUND_SETTINGS;
+  return {
+    volume: readInt(s.volume, 0, 100, d.volume),
+    repeatUntilAck: readBoolean(s.repeatUntilAck, d.repeatUntilAck),
+    work: readSoundId(s.work, d.work),
+    break: readSoundId(s.break, d.break),
+    horario: readSoundId(s.horario, d.horario),
+  };
+}
+
+export function validateState(raw: unknown): PersistedState {
+  const s = asRecord(raw);
+
+  const seen = new Set<string>();
+  const timers = (Array.isArray(s.timers) ? s.timers : []).map((t, i) => {
+    const timer = validateTimer(t, i);
+    if (seen.has(timer.id)) timer.id = createTimerId();
+    seen.add(timer.id);
+    return timer;
+  });
+
+  const customThemes = validateThemes(s.customThemes);
+  const tasks = validateTasks(s.tasks, s.activeTaskId);
+
+  return {
+    particleMode: readEnum(s.particleMode, ["repel", "attract"], "repel"),
+    particlesEnabled: readBoolean(s.particlesEnabled, true),
+    particleEffects: validateParticleEffects(s.particleEffects),
+    reduceMotion: readBoolean(s.reduceMotion, false),
+    // tema apagado ou desconhecido volta para o padrão
+    themeId: findTheme(readString(s.themeId, DEFAULT_THEME_ID), customThemes)
+      .id,
+    customThemes,
+    timeStr: readString(s.timeStr, defaultTimeStr()),
+    activeTimerId: readString(s.activeTimerId, timers[0]?.id ?? ""),
+    timers,
+    tasks: tasks.tasks,
+    activeTaskId: tasks.activeId,
+    soundEnabled: readBoolean(s.soundEnabled, true),
+    sound: validateSound(s.sound),
+    notificationsEnabled: readBoolean(s.notificationsEnabled, false),
+    extendOptions: normalizeExtendOptions(
+      Array.isArray(s.extendOptions) ? s.extendOptions.map(Number) : [],
+    ),
+    shortcuts: validateShortcuts(s.shortcuts),
+    locale: LOCALES.some((l) => l.id === s.locale)
+      ? (s.locale as Locale)
+      : null,
+  };
+}
+
+/* =========================
+   Load / save
+========================= */
+function readEnvelope(): Envelope | null {
+  const raw = localStorage.getItem(LS_KEY);
+  if (raw) {
+    const env = asRecord(JSON.parse(raw));
+    return { version: readInt(env.version, 1, Infinity, 1), data: env.data };
+  }
+
+  for (const { key, version } of LEGACY_KEYS) {
+    const legacy = localStorage.getItem(key);
+    if (legacy) return { version, data: JSON.parse(legacy) };
+  }
+  return null;
+}
+
+export function loadState(): PersistedState | null {
+  try {
+    const env = readEnvelope();
+    if (!env) return null;
+    return validateState(migrate(env.version, env.data));
+  } catch {
+    return null;
+  }
+}
+
+export function saveState(state: PersistedState) {
+  try {
+    const env: Envelope = { version: SCHEMA_VERSION, data: state };
+    localStorage.setItem(LS_KEY, JSON.stringify(env));
+  } catch {
+    // ignore
+  }
+}
+
+/* =========================
+   PersistedState <-> estado do app
+========================= */
+export function prefsFromPersisted(s: PersistedState): SharedPrefs {
+  return {
+    particleMode: s.particleMode,
+    particlesEnabled: s.particlesEnabled,
+    particleEffects: s.particleEffects,
+    reduceMotion: s.reduceMotion,
+    themeId: s.themeId,
+    customThemes: s.customThemes,
+    soundEnabled: s.soundEnabled,
+    sound: s.sound,
+    notificationsEnabled: s.notificationsEnabled,
+    extendOptions: s.extendOptions,
+    shortcuts: s.shortcuts,
+    locale: s.locale,
+  };
+}
+
+/** Junta as partes do app no formato salvo. */
+export function toPersisted(
+  prefs: SharedPrefs,
+  timeStr: string,
+  timers: TimersState,
+  tasks: TasksState,
+): PersistedState {
+  return {
+    ...prefs,
+    timeStr,
+    activeTimerId: timers.activeId,
+    timers: timers.timers.map(persistedFromTimer),
+    tasks: tasks.tasks,
+    activeTaskId: tasks.activeId,
+  };
+}
+
+function parseISO(iso: string | undefined) {
+  if (!iso) return null;
+  const ms = new Date(iso).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function sessionFromPersisted(
+  s: PersistedTimer["session"],
+): TimerSession | null {
+  const startedAtMs = parseISO(s?.startedAtISO);
+  if (!s || startedAtMs === null) return null;
+  return {
+    mode: s.mode,
+    phase: s.phase,
+    startedAtMs,
+    plannedMs: s.plannedMs,
+    pausedMs: s.pausedMs,
+    extendedMs: Math.min(s.extendedMs ?? 0, s.plannedMs),
+    snooze: s.snooze ?? false,
+  };
+}
+
+function timerStateFromPersisted(s: PersistedTimer): TimerState {
+  const iso = s.timerMode === "pomodoro" ? s.pomodoro.endISO : s.targetISO;
+  const pausedAtMs = parseISO(s.pausedAtISO);
+  const originMs = parseISO(s.stopwatch?.originISO);
+  // cronômetro sem origem ainda não foi iniciado
+  const ready =
+    s.timerMode === "cronometro" ? originMs === null : s.pomodoro.ready;
+  return {
+    mode: s.timerMode,
+    status: pausedAtMs !== null ? "paused" : ready ? "ready" : "running",
+    targetMs: parseISO(iso) ?? defaultTargetMs(),
+    targetZone: s.targetZone ?? null,
+    pausedAtMs,
+    pomodoro: {
+      enabled: s.pomodoro.enabled,
+      phase: s.pomodoro.phase,
+      cycleCount: s.pomodoro.cycleCount,
+    },
+    settings: {
+      workMin: s.pomodoro.workMin,
+      breakMin: s.pomodoro.breakMin,
+      longBreakMin: s.pomodoro.longBreakMin,
+      longBreakEvery: s.pomodoro.longBreakEvery,
+      autoStartWork: s.pomodoro.autoStartWork,
+      autoStartBreak: s.pomodoro.autoStartBreak,
+    },
+    stopwatch: { originMs: originMs ?? 0, laps: s.stopwatch?.laps ?? [] },
+    repeat: s.repeat ?? null,
+    session: sessionFromPersisted(s.session),
+    lastFinish: null,
+    endedSessions: [],
+  };
+}
+
+export function timersFromPersisted(s: PersistedState): TimersState | null {
+  if (!s.timers.length) return null;
+  const timers = s.timers.map((t) => ({
+    id: t.id,
+    name: t.name,
+    timer: timerStateFromPersisted(t),
+  }));
+  const activeId = timers.some((t) => t.id === s.activeTimerId)
+    ? s.activeTimerId
+    : timers[0].id;
+  return { timers, activeId };
+}
+
+export function persistedFromTimer({
+  id,
+  name,
+  timer,
+}: NamedTimer): PersistedTimer {
+  const targetISO = new Date(timer.targetMs).toISOString();
+  return {
+    id,
+    name,
+    timerMode: timer.mode,
+    targetISO: timer.mode === "horario" ? targetISO : undefined,
+    targetZone: timer.targetZone ?? undefined,
+    pausedAtISO:
+      timer.pausedAtMs !== null
+        ? new Date(timer.pausedAtMs).toISOString()
+        : undefined,
+    stopwatch:
+      timer.mode === "cronometro" && timer.status !== "ready"
+        ? {
+            originISO: new Date(timer.stopwatch.originMs).toISOString(),
+            laps: timer.stopwatch.laps,
+          }
+        : undefined,
+    repeat: timer.repeat ?? undefined,
+    session: timer.session
+      ? {
+          mode: timer.session.mode,
+          phase: timer.session.phase,
+          startedAtISO: new Date(timer.session.startedAtMs).toISOString(),
+          plannedMs: timer.session.plannedMs,
+          pausedMs: timer.session.pausedMs,
+          extendedMs: timer.session.extendedMs,
+          snooze: timer.session.snooze,
+        }
+      : undefined,
+    pomodoro: {
+      ...timer.pomodoro,
+      ready: timer.status === "ready",
+      endISO: timer.mode === "pomodoro" ? targetISO : undefined,
+      ...timer.settings,
+    },
+  };
+}
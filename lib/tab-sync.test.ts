@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { canLead, heartbeat, unwrap, wrap } from "@/lib/tab-sync";
+import { createTimerState } from "@/lib/timer-engine";
+import {
+  createNamedTimer,
+  hasDueTimer,
+  timersReducer,
+  type TimersEvent,
+  type TimersState,
+} from "@/lib/timers";
+
+const MIN = 60 * 1000;
+
+function pomodoroTimers(): TimersState {
+  const timer = createNamedTimer("Foco", createTimerState(0));
+  let state: TimersState = { timers: [timer], activeId: timer.id };
+  for (const event of [
+    {
+      type: "timer",
+      at: 0,
+      id: timer.id,
+      command: { type: "setMode", mode: "pomodoro" },
+    },
+    {
+      type: "timer",
+      at: 0,
+      id: timer.id,
+      command: { type: "startPhase", phase: "work" },
+    },
+  ] satisfies TimersEvent[]) {
+    state = timersReducer(state, event);
+  }
+  return state;
+}
+
+describe("unwrap", () => {
+  const msg = { type: "alarm", alarm: null } as const;
+
+  it("delivers messages from other tabs", () => {
+    expect(unwrap(wrap(msg, "a"), "b")).toEqual(msg);
+  });
+
+  it("drops the tab's own messages", () => {
+    expect(unwrap(wrap(msg, "a"), "a")).toBeNull();
+  });
+
+  it("drops other protocol versions and garbage", () => {
+    expect(unwrap({ ...wrap(msg, "a"), protocol: 1 }, "b")).toBeNull();
+    expect(unwrap("oi", "b")).toBeNull();
+    expect(unwrap(null, "b")).toBeNull();
+  });
+});
+
+describe("heartbeat election", () => {
+  it("takes the lead when nobody holds it", () => {
+    expect(canLead(null, "a", 0)).toBe(true);
+    expect(canLead("{não é json", "a", 0)).toBe(true);
+  });
+
+  it("keeps a live leader and renews its own beat", () => {
+    const beat = heartbeat("a", 1000);
+    expect(canLead(beat, "b", 2000)).toBe(false);
+    expect(canLead(beat, "a", 2000)).toBe(true);
+  });
+
+  it("takes over once the leader stops beating", () => {
+    const beat = heartbeat("a", 1000);
+    expect(canLead(beat, "b", 1000 + 60 * 1000)).toBe(true);
+  });
+});
+
+describe("leader ticks", () => {
+  it("only counts a tick as due when a phase reaches its target", () => {
+    const state = pomodoroTimers();
+    expect(hasDueTimer(state, 25 * MIN - 1)).toBe(false);
+    expect(hasDueTimer(state, 25 * MIN)).toBe(true);
+  });
+
+  it("keeps every tab in step when they replay the leader's tick", () => {
+    const leader = pomodoroTimers();
+    const follower = pomodoroTimers();
+    // acordou horas depois: a fase seguinte recomeça do instante do tick
+    const tick: TimersEvent = { type: "tick", at: 10 * 60 * MIN };
+
+    const a = timersReducer(leader, tick);
+    const b = timersReducer(follower, tick);
+    expect(b.timers[0].timer).toEqual(a.timers[0].timer);
+    expect(b.timers[0].timer.targetMs).toBe(tick.at + 5 * MIN);
+  });
+
+  it("ignores a replayed tick that arrives after the phase closed", () => {
+    const state = timersReducer(pomodoroTimers(), {
+      type: "tick",
+      at: 25 * MIN,
+    });
+    const again = timersReducer(state, { type: "tick", at: 25 * MIN });
+    expect(again).toBe(state);
+  });
+});
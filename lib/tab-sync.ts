@@ -0,0 +1,209 @@
+/* =========================
+   Sincronização entre abas
+
+   Cada aba roda o próprio motor. Em vez de copiar estado, as abas
+   repassam os eventos já carimbados (o reducer é puro, então todas
+   chegam ao mesmo resultado) e elegem uma líder, a única que toca som,
+   notifica e grava o histórico. O tick que fecha uma fase também só sai
+   da líder: com o instante dela, as abas não divergem ao acordar.
+========================= */
+import type { PersistedState, SharedPrefs } from "@/lib/storage";
+import type { TasksEvent } from "@/lib/tasks";
+import type { TimerFinish } from "@/lib/timer-engine";
+import type { TimersEvent } from "@/lib/timers";
+import { asRecord } from "@/lib/validate";
+
+const CHANNEL = "temporizador";
+// fallback sem BroadcastChannel: a mensagem passa por um `storage` event
+const SYNC_KEY = "temporizador_sync";
+const LOCK_NAME = "temporizador_leader";
+const LEADER_KEY = "temporizador_leader";
+const LEADER_TTL_MS = 3000;
+const HEARTBEAT_MS = 1000;
+// abas com versões diferentes do app não conversam
+const PROTOCOL = 3;
+
+/** Alarme tocando até alguém dispensar, em qualquer aba. */
+export type SharedAlarm = {
+  timerId: string;
+  title: string;
+  body: string;
+  finished: TimerFinish;
+};
+
+export type TabMessage =
+  | { type: "timers"; event: TimersEvent }
+  | { type: "tasks"; event: TasksEvent }
+  | { type: "prefs"; prefs: SharedPrefs }
+  | { type: "alarm"; alarm: SharedAlarm | null }
+  | { type: "replace"; state: PersistedState };
+
+type Envelope = { protocol: number; from: string; msg: TabMessage };
+
+export type TabChannel = {
+  post: (msg: TabMessage) => void;
+  close: () => void;
+};
+
+export function createTabId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function wrap(msg: TabMessage, from: string): Envelope {
+  return { protocol: PROTOCOL, from, msg };
+}
+
+/** Mensagem de outra aba com o mesmo protocolo; o resto vira `null`. */
+export function unwrap(raw: unknown, self: string): TabMessage | null {
+  const env = asRecord(raw);
+  if (env.protocol !== PROTOCOL || env.from === self) return null;
+  return (env as Envelope).msg ?? null;
+}
+
+export function openTabChannel(
+  tabId: string,
+  onMessage: (msg: TabMessage) => void,
+): TabChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL);
+    channel.onmessage = (e: MessageEvent) => {
+      const msg = unwrap(e.data, tabId);
+      if (msg) onMessage(msg);
+    };
+    return {
+      post: (msg) => channel.postMessage(wrap(msg, tabId)),
+      close: () => channel.close(),
+    };
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== SYNC_KEY || !e.newValue) return;
+    try {
+      const msg = unwrap(JSON.parse(e.newValue), tabId);
+      if (msg) onMessage(msg);
+    } catch {
+      // ignore
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    post: (msg) => {
+      try {
+        // o nonce garante o evento mesmo com a mesma mensagem repetida
+        localStorage.setItem(
+          SYNC_KEY,
+          JSON.stringify({ ...wrap(msg, tabId), nonce: createTabId() }),
+        );
+      } catch {
+        // ignore
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+}
+
+/* =========================
+   Leader election
+========================= */
+
+/**
+ * Heartbeat salvo (`raw`): esta aba pode liderar? Sim se ele é dela,
+ * se expirou ou se não dá para ler.
+ */
+export function canLead(raw: string | null, tabId: string, now: number) {
+  let current: { id?: unknown; until?: unknown } = {};
+  try {
+    current = asRecord(JSON.parse(raw ?? "{}"));
+  } catch {
+    // ignore
+  }
+  return (
+    current.id === tabId ||
+    typeof current.until !== "number" ||
+    current.until < now
+  );
+}
+
+/** Renova a liderança de `tabId` por mais `LEADER_TTL_MS`. */
+export function heartbeat(tabId: string, now: number) {
+  return JSON.stringify({ id: tabId, until: now + LEADER_TTL_MS });
+}
+
+/**
+ * Web Locks quando existe: quem segura o lock é a líder e, quando a aba
+ * fecha, a próxima da fila assume. Sem ele, um heartbeat em
+ * localStorage que expira se a líder parar de renovar. Nos dois casos
+ * `onChange(false)` chega logo, para a aba saber que é seguidora.
+ */
+export function electLeader(
+  tabId: string,
+  onChange: (leader: boolean) => void,
+): () => void {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    const locks = navigator.locks;
+    const abort = new AbortController();
+    let closed = false;
+    let release = () => {};
+    const hold = () => {
+      onChange(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    };
+    // primeiro sem esperar: a fila não avisa quem ficou de fora
+    locks
+      .request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+        if (closed) return;
+        if (lock) return hold();
+        onChange(false);
+        locks.request(LOCK_NAME, { signal: abort.signal }, hold).catch(() => {
+          // cancelado antes de conseguir o lock
+        });
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      closed = true;
+      abort.abort();
+      release();
+      onChange(false);
+    };
+  }
+
+  let leader: boolean | null = null;
+  const beat = () => {
+    const now = Date.now();
+    let raw: string | null = null;
+    try {
+      raw = localStorage.getItem(LEADER_KEY);
+    } catch {
+      // ignore
+    }
+    const free = canLead(raw, tabId, now);
+    if (free) {
+      try {
+        localStorage.setItem(LEADER_KEY, heartbeat(tabId, now));
+      } catch {
+        // ignore
+      }
+    }
+    if (free !== leader) {
+      leader = free;
+      onChange(free);
+    }
+  };
+
+  beat();
+  const id = window.setInterval(beat, HEARTBEAT_MS);
+  const resign = () => {
+    if (leader) localStorage.removeItem(LEADER_KEY);
+  };
+  window.addEventListener("pagehide", resign);
+  return () => {
+    window.clearInterval(id);
+    window.removeEventListener("pagehide", resign);
+    resign();
+    onChange(false);
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTask,
+  EMPTY_TASKS,
+  earnedPomodoro,
+  tasksReducer,
+  validateTasks,
+} from "@/lib/tasks";
+import {
+  createTimerState,
+  timerReducer,
+  withAt,
+  type TimerCommand,
+  type TimerState,
+} from "@/lib/timer-engine";
+
+const MIN = 60 * 1000;
+
+function run(commands: [number, TimerCommand][]) {
+  return commands.reduce<TimerState>(
+    (state, [at, command]) => timerReducer(state, withAt(command, at)),
+    createTimerState(0),
+  );
+}
+
+describe("earnedPomodoro", () => {
+  const work: [number, TimerCommand][] = [
+    [0, { type: "setMode", mode: "pomodoro" }],
+    [0, { type: "startPhase", phase: "work" }],
+  ];
+
+  it("credits a work phase that ran to the end", () => {
+    expect(earnedPomodoro(run([...work, [25 * MIN, { type: "tick" }]]))).toBe(
+      true,
+    );
+  });
+
+  it("does not credit a work phase ended with reset", () => {
+    expect(earnedPomodoro(run([...work, [10 * MIN, { type: "reset" }]]))).toBe(
+      false,
+    );
+  });
+
+  it("does not credit a snooze or a break", () => {
+    const snoozed = run([
+      ...work,
+      [25 * MIN, { type: "tick" }],
+      [25 * MIN, { type: "snooze", minutes: 5 }],
+      [30 * MIN, { type: "tick" }],
+    ]);
+    expect(earnedPomodoro(snoozed)).toBe(false);
+
+    const afterBreak = run([
+      ...work,
+      [25 * MIN, { type: "tick" }],
+      [30 * MIN, { type: "tick" }],
+    ]);
+    expect(earnedPomodoro(afterBreak)).toBe(false);
+  });
+});
+
+describe("tasksReducer", () => {
+  it("activates the first task and drops it when done", () => {
+    const task = createTask("  Escrever  ", 3);
+    let state = tasksReducer(EMPTY_TASKS, { type: "add", task });
+    expect(state.activeId).toBe(task.id);
+    expect(state.tasks[0].title).toBe("Escrever");
+
+    state = tasksReducer(state, { type: "credit", id: task.id });
+    expect(state.tasks[0].completed).toBe(1);
+
+    state = tasksReducer(state, { type: "toggleDone", id: task.id });
+    expect(state.activeId).toBeNull();
+  });
+
+  it("validates stored tasks", () => {
+    const state = validateTasks(
+      [
+        { id: "a", title: "A", estimate: 99, completed: -1 },
+        { id: "a", title: "duplicada" },
+        { id: "b", title: "  " },
+      ],
+      "a",
+    );
+    expect(state.tasks).toEqual([
+      {
+        id: "a",
+        title: "A",
+        estimate: 1,
+        completed: 0,
+        done: false,
+        archived: false,
+      },
+    ]);
+    expect(state.activeId).toBe("a");
+  });
+});
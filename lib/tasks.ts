@@ -0,0 +1,212 @@
+/* =========================
+   Tarefas (ligadas ao pomodoro)
+
+   Cada tarefa tem uma estimativa e a contagem de pomodoros de trabalho
+   já feitos nela. A tarefa ativa recebe o crédito de cada fase de
+   trabalho que termina. Os eventos são puros, como os dos timers, para
+   as outras abas aplicarem o mesmo evento.
+========================= */
+import type { TimerState } from "@/lib/timer-engine";
+import { asRecord, readBoolean, readInt, readString } from "@/lib/validate";
+
+export type Task = {
+  id: string;
+  title: string;
+  /** pomodoros previstos */
+  estimate: number;
+  /** fases de trabalho concluídas com a tarefa ativa */
+  completed: number;
+  done: boolean;
+  archived: boolean;
+};
+
+export type TasksState = {
+  tasks: Task[];
+  /** só uma tarefa aberta (não feita nem arquivada) pode estar ativa */
+  activeId: string | null;
+};
+
+export type TasksEvent =
+  | { type: "add"; task: Task }
+  | { type: "rename"; id: string; title: string }
+  | { type: "estimate"; id: string; estimate: number }
+  | { type: "select"; id: string | null }
+  | { type: "toggleDone"; id: string }
+  | { type: "move"; id: string; offset: -1 | 1 }
+  | { type: "archive"; id: string; archived: boolean }
+  | { type: "remove"; id: string }
+  | { type: "credit"; id: string };
+
+export const MAX_TASKS = 100;
+export const MAX_ESTIMATE = 20;
+export const MAX_TASK_TITLE = 80;
+
+export const EMPTY_TASKS: TasksState = { tasks: [], activeId: null };
+
+export function createTask(title: string, estimate: number): Task {
+  return {
+    id: `task-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    title: title.trim().slice(0, MAX_TASK_TITLE),
+    estimate: Math.min(MAX_ESTIMATE, Math.max(1, Math.round(estimate))),
+    completed: 0,
+    done: false,
+    archived: false,
+  };
+}
+
+export function isOpenTask(task: Task) {
+  return !task.done && !task.archived;
+}
+
+export function getActiveTask(state: TasksState): Task | null {
+  return state.tasks.find((t) => t.id === state.activeId) ?? null;
+}
+
+/**
+ * O término mais recente vale um pomodoro para a tarefa ativa? Só fase
+ * de trabalho concluída, como no histórico: "Zerar" não conta e a
+ * soneca continua uma fase que já foi creditada.
+ */
+export function earnedPomodoro(state: TimerState) {
+  const done = state.lastFinish;
+  if (!done || done.mode !== "pomodoro" || done.phase !== "work") return false;
+  const last = state.endedSessions[state.endedSessions.length - 1];
+  return (
+    last?.endedAtMs === done.at && last.outcome === "completed" && !last.snooze
+  );
+}
+
+function mapTask(
+  state: TasksState,
+  id: string,
+  fn: (t: Task) => Task,
+): TasksState {
+  let changed = false;
+  const tasks = state.tasks.map((t) => {
+    if (t.id !== id) return t;
+    const next = fn(t);
+    if (next !== t) changed = true;
+    return next;
+  });
+  if (!changed) return state;
+  // feita ou arquivada deixa de ser a ativa
+  const active = tasks.find((t) => t.id === state.activeId);
+  const activeId = active && isOpenTask(active) ? state.activeId : null;
+  return { tasks, activeId };
+}
+
+export function tasksReducer(state: TasksState, event: TasksEvent): TasksState {
+  switch (event.type) {
+    case "add":
+      if (!event.task.title || state.tasks.length >= MAX_TASKS) return state;
+      if (state.tasks.some((t) => t.id === event.task.id)) return state;
+      return {
+        tasks: [...state.tasks, event.task],
+        // a primeira tarefa já entra ativa
+        activeId: state.activeId ?? event.task.id,
+      };
+
+    case "rename": {
+      const title = event.title.trim().slice(0, MAX_TASK_TITLE);
+      if (!title) return state;
+      return mapTask(state, event.id, (t) =>
+        t.title === title ? t : { ...t, title },
+      );
+    }
+
+    case "estimate": {
+      const estimate = Math.min(
+        MAX_ESTIMATE,
+        Math.max(1, Math.round(event.estimate)),
+      );
+      return mapTask(state, event.id, (t) =>
+        t.estimate === estimate ? t : { ...t, estimate },
+      );
+    }
+
+    case "select": {
+      if (event.id === null) {
+        return state.activeId === null ? state : { ...state, activeId: null };
+      }
+      const task = state.tasks.find((t) => t.id === event.id);
+      if (!task || !isOpenTask(task) || state.activeId === task.id) {
+        return state;
+      }
+      return { ...state, activeId: task.id };
+    }
+
+    case "toggleDone":
+      return mapTask(state, event.id, (t) => ({ ...t, done: !t.done }));
+
+    case "move": {
+      // troca com a vizinha da mesma lista (abertas ou arquivadas)
+      const idx = state.tasks.findIndex((t) => t.id === event.id);
+      if (idx < 0) return state;
+      const archived = state.tasks[idx].archived;
+      let to = idx + event.offset;
+      while (
+        to >= 0 &&
+        to < state.tasks.length &&
+        state.tasks[to].archived !== archived
+      ) {
+        to += event.offset;
+      }
+      if (to < 0 || to >= state.tasks.length) return state;
+      const tasks = state.tasks.slice();
+      [tasks[idx], tasks[to]] = [tasks[to], tasks[idx]];
+      return { ...state, tasks };
+    }
+
+    case "archive":
+      return mapTask(state, event.id, (t) =>
+        t.archived === event.archived ? t : { ...t, archived: event.archived },
+      );
+
+    case "remove":
+      if (!state.tasks.some((t) => t.id === event.id)) return state;
+      return {
+        tasks: state.tasks.filter((t) => t.id !== event.id),
+        activeId: state.activeId === event.id ? null : state.activeId,
+      };
+
+    case "credit":
+      return mapTask(state, event.id, (t) => ({
+        ...t,
+        completed: t.completed + 1,
+      }));
+  }
+}
+
+/* =========================
+   Validation
+========================= */
+function validateTask(raw: unknown): Task | null {
+  const t = asRecord(raw);
+  const title = readString(t.title, "").trim().slice(0, MAX_TASK_TITLE);
+  if (typeof t.id !== "string" || !t.id || !title) return null;
+  return {
+    id: t.id,
+    title,
+    estimate: readInt(t.estimate, 1, MAX_ESTIMATE, 1),
+    completed: readInt(t.completed, 0, 10_000, 0),
+    done: readBoolean(t.done, false),
+    archived: readBoolean(t.archived, false),
+  };
+}
+
+export function validateTasks(raw: unknown, activeId: unknown): TasksState {
+  const seen = new Set<string>();
+  const tasks: Task[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const task = validateTask(item);
+    if (!task || seen.has(task.id)) continue;
+    seen.add(task.id);
+    tasks.push(task);
+  }
+  const capped = tasks.slice(0, MAX_TASKS);
+  const active = capped.find((t) => t.id === activeId);
+  return {
+    tasks: capped,
+    activeId: active && isOpenTask(active) ? active.id : null,
+  };
+}
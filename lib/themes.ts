@@ -0,0 +1,271 @@
+/* =========================
+   Temas
+
+   Um tema define o fundo (cor e os três brilhos radiais), o cartão,
+   a cor e a física das partículas. A interface usa cores do Tailwind
+   ligadas a variáveis CSS (`ink`, `surface`, `raised`, `ok`…), então
+   trocar de tema é só reescrever essas variáveis no <html>.
+========================= */
+import type { Messages } from "@/lib/i18n";
+import { PARTICLE_CONFIG, type ParticlePhysics } from "@/lib/particles";
+import { asRecord, readEnum, readNumber, readString } from "@/lib/validate";
+
+export type ThemeScheme = "dark" | "light" | "contrast";
+
+export type Theme = {
+  id: string;
+  /** vazio nos temas embutidos: o nome vem das traduções */
+  name: string;
+  scheme: ThemeScheme;
+  background: string;
+  gradients: [string, string, string];
+  card: string;
+  /** 0 a 1 */
+  cardOpacity: number;
+  particle: string;
+  physics: ParticlePhysics;
+};
+
+export const THEME_SCHEMES: ThemeScheme[] = ["dark", "light", "contrast"];
+export const MAX_CUSTOM_THEMES = 12;
+export const CUSTOM_THEME_PREFIX = "custom-";
+
+export const PHYSICS_RANGES: Record<
+  keyof ParticlePhysics,
+  { min: number; max: number; step: number }
+> = {
+  density: { min: 0.00002, max: 0.0002, step: 0.00001 },
+  linkDist: { min: 60, max: 240, step: 10 },
+  speed: { min: 0.1, max: 1.5, step: 0.05 },
+  force: { min: 0.02, max: 0.2, step: 0.01 },
+};
+
+const DEFAULT_PHYSICS: ParticlePhysics = {
+  density: PARTICLE_CONFIG.density,
+  linkDist: PARTICLE_CONFIG.linkDist,
+  speed: PARTICLE_CONFIG.speed,
+  force: PARTICLE_CONFIG.force,
+};
+
+export const BUILTIN_THEMES: Theme[] = [
+  {
+    id: "dark",
+    name: "",
+    scheme: "dark",
+    background: "#020617",
+    gradients: ["#6366f1", "#ec4899", "#22d3ee"],
+    card: "#ffffff",
+    cardOpacity: 0.05,
+    particle: "#ffffff",
+    physics: DEFAULT_PHYSICS,
+  },
+  {
+    id: "light",
+    name: "",
+    scheme: "light",
+    background: "#f1f5f9",
+    gradients: ["#a5b4fc", "#f9a8d4", "#67e8f9"],
+    card: "#ffffff",
+    cardOpacity: 0.6,
+    particle: "#0f172a",
+    physics: { ...DEFAULT_PHYSICS, density: 0.00007, speed: 0.35 },
+  },
+  {
+    id: "contrast",
+    name: "",
+    scheme: "contrast",
+    background: "#000000",
+    gradients: ["#000000", "#000000", "#000000"],
+    card: "#000000",
+    cardOpacity: 1,
+    particle: "#ffffff",
+    physics: { ...DEFAULT_PHYSICS, density: 0.00004, speed: 0.25 },
+  },
+  {
+    id: "ocean",
+    name: "",
+    scheme: "dark",
+    background: "#03131f",
+    gradients: ["#0ea5e9", "#14b8a6", "#6366f1"],
+    card: "#ffffff",
+    cardOpacity: 0.05,
+    particle: "#a5f3fc",
+    physics: { ...DEFAULT_PHYSICS, linkDist: 170, speed: 0.3 },
+  },
+  {
+    id: "sunset",
+    name: "",
+    scheme: "dark",
+    background: "#1a0b12",
+    gradients: ["#f97316", "#e11d48", "#facc15"],
+    card: "#ffffff",
+    cardOpacity: 0.05,
+    particle: "#fed7aa",
+    physics: { ...DEFAULT_PHYSICS, speed: 0.5, force: 0.12 },
+  },
+  {
+    id: "forest",
+    name: "",
+    scheme: "dark",
+    background: "#04140c",
+    gradients: ["#22c55e", "#84cc16", "#0d9488"],
+    card: "#ffffff",
+    cardOpacity: 0.05,
+    particle: "#bbf7d0",
+    physics: { ...DEFAULT_PHYSICS, density: 0.00012, linkDist: 120 },
+  },
+];
+
+export const DEFAULT_THEME_ID = "dark";
+
+// cores da interface por esquema, em "r g b" para o `<alpha-value>`
+const SCHEME_TOKENS: Record<ThemeScheme, Record<string, string>> = {
+  dark: {
+    ink: "255 255 255",
+    raised: "15 23 42",
+    ok: "167 243 208",
+    warn: "253 230 138",
+    danger: "254 205 211",
+    info: "186 230 253",
+  },
+  light: {
+    ink: "15 23 42",
+    raised: "255 255 255",
+    ok: "4 120 87",
+    warn: "180 83 9",
+    danger: "190 18 60",
+    info: "3 105 161",
+  },
+  contrast: {
+    ink: "255 255 255",
+    raised: "0 0 0",
+    ok: "74 222 128",
+    warn: "250 204 21",
+    danger: "251 113 133",
+    info: "125 211 252",
+  },
+};
+
+/** Cores das partículas que o timer usa, por esquema. */
+export type ParticleTints = { break: string; longBreak: string; alert: string };
+
+// no trabalho as partículas ficam com a cor do tema
+const PARTICLE_TINTS: Record<ThemeScheme, ParticleTints> = {
+  dark: { break: "#6ee7b7", longBreak: "#7dd3fc", alert: "#fb7185" },
+  light: { break: "#047857", longBreak: "#0369a1", alert: "#be123c" },
+  contrast: { break: "#4ade80", longBreak: "#38bdf8", alert: "#f43f5e" },
+};
+
+// opacidade de cada brilho radial, do mais forte ao mais fraco
+const GRADIENT_ALPHA = [0.35, 0.22, 0.18];
+
+const HEX_RE = /^#[0-9a-f]{6}$/i;
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+export function rgba(hex: string, alpha: number) {
+  return `rgba(${hexToRgb(hex).join(",")},${alpha})`;
+}
+
+export function findTheme(id: string, custom: Theme[]): Theme {
+  return (
+    BUILTIN_THEMES.find((t) => t.id === id) ??
+    custom.find((t) => t.id === id) ??
+    BUILTIN_THEMES[0]
+  );
+}
+
+export function themeName(theme: Theme, t: Messages) {
+  return theme.name || t.theme.builtin[theme.id] || theme.id;
+}
+
+export function isCustomTheme(theme: Theme) {
+  return theme.id.startsWith(CUSTOM_THEME_PREFIX);
+}
+
+/** Cópia editável de um tema, com id novo. */
+export function cloneTheme(theme: Theme, name: string): Theme {
+  return {
+    ...theme,
+    id: `${CUSTOM_THEME_PREFIX}${Math.random().toString(36).slice(2, 10)}`,
+    name,
+    gradients: [...theme.gradients],
+    physics: { ...theme.physics },
+  };
+}
+
+/** Variáveis CSS que o tema escreve no <html>. */
+export function themeVars(theme: Theme): Record<string, string> {
+  const vars: Record<string, string> = {
+    "--surface": hexToRgb(theme.background).join(" "),
+  };
+  for (const [key, value] of Object.entries(SCHEME_TOKENS[theme.scheme])) {
+    vars[`--${key}`] = value;
+  }
+  return vars;
+}
+
+export function particleTints(theme: Theme) {
+  return PARTICLE_TINTS[theme.scheme];
+}
+
+export function gradientBackground(theme: Theme) {
+  const [a, b, c] = theme.gradients.map((hex, i) =>
+    rgba(hex, GRADIENT_ALPHA[i]),
+  );
+  return [
+    `radial-gradient(circle at 25% 25%, ${a}, transparent 45%)`,
+    `radial-gradient(circle at 75% 25%, ${b}, transparent 50%)`,
+    `radial-gradient(circle at 55% 80%, ${c}, transparent 55%)`,
+  ].join(",");
+}
+
+function readHex(v: unknown, fallback: string) {
+  return typeof v === "string" && HEX_RE.test(v) ? v.toLowerCase() : fallback;
+}
+
+function validateTheme(raw: unknown): Theme | null {
+  const t = asRecord(raw);
+  if (typeof t.id !== "string" || !t.id.startsWith(CUSTOM_THEME_PREFIX)) {
+    return null;
+  }
+  const d = BUILTIN_THEMES[0];
+  const gradients = Array.isArray(t.gradients) ? t.gradients : [];
+  const p = asRecord(t.physics);
+  const physics = { ...d.physics };
+  for (const key of Object.keys(PHYSICS_RANGES) as (keyof ParticlePhysics)[]) {
+    const { min, max } = PHYSICS_RANGES[key];
+    physics[key] = readNumber(p[key], min, max, d.physics[key]);
+  }
+  return {
+    id: t.id,
+    name: readString(t.name, "Tema").slice(0, 40),
+    scheme: readEnum(t.scheme, THEME_SCHEMES, "dark"),
+    background: readHex(t.background, d.background),
+    gradients: [
+      readHex(gradients[0], d.gradients[0]),
+      readHex(gradients[1], d.gradients[1]),
+      readHex(gradients[2], d.gradients[2]),
+    ],
+    card: readHex(t.card, d.card),
+    cardOpacity: readNumber(t.cardOpacity, 0, 1, d.cardOpacity),
+    particle: readHex(t.particle, d.particle),
+    physics,
+  };
+}
+
+export function validateThemes(raw: unknown): Theme[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const themes: Theme[] = [];
+  for (const item of raw) {
+    const theme = validateTheme(item);
+    if (!theme || seen.has(theme.id)) continue;
+    seen.add(theme.id);
+    themes.push(theme);
+  }
+  return themes.slice(0, MAX_CUSTOM_THEMES);
+}
@@ -0,0 +1,58 @@
+/* =========================
+   Ticker
+
+   Agenda os ticks na virada de cada segundo do relógio (e não a cada
+   1000 ms a partir de um instante qualquer), acordando antes quando
+   algum prazo vence no meio do segundo. Roda igual no worker e na
+   thread principal.
+========================= */
+
+export type Ticker = {
+  setDeadlines: (deadlines: number[]) => void;
+  stop: () => void;
+};
+
+// folga para o tick cair sempre depois da virada do segundo
+const TICK_OFFSET_MS = 10;
+
+export function createTicker(
+  onTick: (now: number) => void,
+  now: () => number = () => Date.now(),
+): Ticker {
+  let deadlines: number[] = [];
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  function schedule() {
+    if (stopped) return;
+    const t = now();
+    let delay = 1000 - (t % 1000) + TICK_OFFSET_MS;
+    for (const d of deadlines) {
+      if (d > t) delay = Math.min(delay, d - t);
+    }
+    timeout = setTimeout(fire, delay);
+  }
+
+  function fire() {
+    // depois de suspender a máquina o timeout dispara atrasado; o motor
+    // recupera o que passou a partir do `now` real
+    const t = now();
+    deadlines = deadlines.filter((d) => d > t);
+    onTick(t);
+    schedule();
+  }
+
+  schedule();
+
+  return {
+    setDeadlines(next) {
+      deadlines = next.slice();
+      if (timeout) clearTimeout(timeout);
+      schedule();
+    },
+    stop() {
+      stopped = true;
+      if (timeout) clearTimeout(timeout);
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { getMessages } from "@/lib/i18n";
+import { parseTimeInput, TIME_INPUT_EXAMPLES } from "@/lib/time-input";
+
+const pt = getMessages("pt-BR");
+const en = getMessages("en");
+// segunda, 12:00 UTC
+const NOW = new Date(Date.UTC(2026, 0, 5, 12, 0));
+
+function durationSec(value: string) {
+  const r = parseTimeInput(value, NOW, pt);
+  if (!r.ok || r.kind !== "duration") return r;
+  return (r.targetMs - NOW.getTime()) / 1000;
+}
+
+function clockAt(value: string) {
+  const r = parseTimeInput(value, NOW, pt);
+  if (!r.ok || r.kind !== "clock") return r;
+  return new Date(r.targetMs).toISOString();
+}
+
+describe("durations", () => {
+  it.each([
+    ["10m", 600],
+    ["10 min", 600],
+    ["90s", 90],
+    ["1h30m", 5400],
+    ["1h30", 5400],
+    ["1m30", 90],
+    ["1h 2m 3s", 3723],
+    ["+15", 900],
+  ])("%s", (value, sec) => {
+    expect(durationSec(value)).toBe(sec);
+  });
+
+  it("rejects repeated units and stray numbers", () => {
+    expect(parseTimeInput("1m30m", NOW, pt).ok).toBe(false);
+    expect(parseTimeInput("30 1h", NOW, pt).ok).toBe(false);
+  });
+});
+
+describe("clock times", () => {
+  it("reads 12h times", () => {
+    expect(clockAt("6:30pm UTC")).toBe("2026-01-05T18:30:00.000Z");
+    expect(clockAt("6:30 p.m. UTC")).toBe("2026-01-05T18:30:00.000Z");
+    expect(clockAt("9 am UTC")).toBe("2026-01-06T09:00:00.000Z");
+    expect(clockAt("12am UTC")).toBe("2026-01-06T00:00:00.000Z");
+    expect(clockAt("12:15pm UTC")).toBe("2026-01-05T12:15:00.000Z");
+  });
+
+  it("keeps seconds", () => {
+    expect(clockAt("18:30:15 UTC")).toBe("2026-01-05T18:30:15.000Z");
+  });
+
+  it("resolves the time zone suffix", () => {
+    const r = parseTimeInput("15:00 America/New_York", NOW, pt);
+    expect(r).toEqual({
+      ok: true,
+      kind: "clock",
+      targetMs: Date.UTC(2026, 0, 5, 20, 0),
+      zone: "America/New_York",
+    });
+  });
+});
+
+describe("errors", () => {
+  it.each([
+    ["", pt.timeInput.empty, en.timeInput.empty],
+    ["0m", pt.timeInput.zeroDuration, en.timeInput.zeroDuration],
+    ["100h", pt.timeInput.maxDuration(99), en.timeInput.maxDuration(99)],
+    ["13pm", pt.timeInput.hour12, en.timeInput.hour12],
+    ["25:00", pt.timeInput.hour24, en.timeInput.hour24],
+    ["10:75", pt.timeInput.minutes, en.timeInput.minutes],
+    ["10:00:99", pt.timeInput.seconds, en.timeInput.seconds],
+    ["15", pt.timeInput.bareNumber("15"), en.timeInput.bareNumber("15")],
+    [
+      "15:00 Foo/Bar",
+      pt.timeInput.unknownZone("Foo/Bar"),
+      en.timeInput.unknownZone("Foo/Bar"),
+    ],
+    [
+      "10m America/New_York",
+      pt.timeInput.zoneOnlyClock,
+      en.timeInput.zoneOnlyClock,
+    ],
+    [
+      "amanhã",
+      pt.timeInput.unknown(TIME_INPUT_EXAMPLES),
+      en.timeInput.unknown(TIME_INPUT_EXAMPLES),
+    ],
+  ])("%j", (value, ptError, enError) => {
+    expect(parseTimeInput(value, NOW, pt)).toEqual({
+      ok: false,
+      error: ptError,
+    });
+    expect(parseTimeInput(value, NOW, en)).toEqual({
+      ok: false,
+      error: enError,
+    });
+    expect(ptError).not.toBe(enError);
+  });
+});
@@ -0,0 +1,178 @@
+/* =========================
+   Entrada de horário / duração
+
+   Aceita duração relativa ("10m", "1h30m", "1h30", "1m30", "90s",
+   "+15") e horário absoluto com segundos e em 12h ("18:30",
+   "18:30:15", "6:30pm", "9 am"), opcionalmente seguido de um fuso IANA
+   ("15:00 America/New_York"). Horário que já passou hoje vale para
+   amanhã.
+========================= */
+import { formatDayMonth, type Locale, type Messages } from "@/lib/i18n";
+import {
+  canonicalZone,
+  formatInZone,
+  formatOffset,
+  localZone,
+  nextWallTime,
+} from "@/lib/timezone";
+import { formatClock, formatHMS } from "@/lib/utils";
+
+export type TimeInputResult =
+  | { ok: true; kind: "duration"; targetMs: number }
+  | { ok: true; kind: "clock"; targetMs: number; zone: string | null }
+  | { ok: false; error: string };
+
+const MAX_DURATION_H = 99;
+
+export const TIME_INPUT_EXAMPLES =
+  "10m, 1h30, 90s, +15, 18:30:00, 6:30pm, 15:00 America/New_York";
+
+const fail = (error: string): TimeInputResult => ({ ok: false, error });
+
+const CLOCK_RE =
+  /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(?:([ap])\.?\s*m\.?)?$/;
+const DURATION_TOKEN_RE = /(\d+)\s*(h|min|m|seg|s)?\s*/y;
+const UNIT_SEC = { h: 3600, m: 60, s: 1 };
+const NEXT_UNIT = { h: "m", m: "s", s: null } as const;
+
+function durationResult(
+  totalSec: number,
+  nowMs: number,
+  t: Messages,
+): TimeInputResult {
+  if (totalSec <= 0) return fail(t.timeInput.zeroDuration);
+  if (totalSec > MAX_DURATION_H * 3600) {
+    return fail(t.timeInput.maxDuration(MAX_DURATION_H));
+  }
+  return { ok: true, kind: "duration", targetMs: nowMs + totalSec * 1000 };
+}
+
+function parseDuration(
+  text: string,
+  nowMs: number,
+  t: Messages,
+): TimeInputResult | null {
+  const plus = text.startsWith("+");
+  const body = plus ? text.slice(1).trim() : text;
+  // "+15": minutos a partir de agora
+  if (plus && /^\d+$/.test(body))
+    return durationResult(Number(body) * 60, nowMs, t);
+
+  let pos = 0;
+  let total = 0;
+  let prev: keyof typeof UNIT_SEC | null = null;
+  const seen = new Set<string>();
+  while (pos < body.length) {
+    DURATION_TOKEN_RE.lastIndex = pos;
+    const m = DURATION_TOKEN_RE.exec(body);
+    if (!m) return null;
+    pos = DURATION_TOKEN_RE.lastIndex;
+
+    // número sem unidade só no fim, logo após horas ou minutos: vale a
+    // unidade seguinte ("1h30" = 1h30m, "1m30" = 1m30s)
+    const raw = m[2] ?? (pos >= body.length && prev ? NEXT_UNIT[prev] : null);
+    if (!raw) return null;
+    const unit = raw[0] as keyof typeof UNIT_SEC;
+    if (seen.has(unit)) return null;
+    seen.add(unit);
+    total += Number(m[1]) * UNIT_SEC[unit];
+    prev = unit;
+  }
+  if (!seen.size) return null;
+  return durationResult(total, nowMs, t);
+}
+
+// "America/Sao_Paulo", "Etc/GMT+3", "UTC"
+const ZONE_SUFFIX_RE = /\s+([a-z_]+(?:\/[a-z0-9_+-]+)+|utc|gmt)$/i;
+
+function parseClock(
+  text: string,
+  now: Date,
+  zone: string | null,
+  t: Messages,
+): TimeInputResult | null {
+  const m = CLOCK_RE.exec(text);
+  if (!m) return null;
+  const [, hRaw, mRaw, sRaw, meridiem] = m;
+  // número solto ("15") é ambíguo: exige ":" ou am/pm
+  if (!mRaw && !meridiem) return null;
+
+  let hh = Number(hRaw);
+  const mm = Number(mRaw ?? 0);
+  const ss = Number(sRaw ?? 0);
+
+  if (meridiem) {
+    if (hh < 1 || hh > 12) return fail(t.timeInput.hour12);
+    hh = (hh % 12) + (meridiem === "p" ? 12 : 0);
+  } else if (hh > 23) {
+    return fail(t.timeInput.hour24);
+  }
+  if (mm > 59) return fail(t.timeInput.minutes);
+  if (ss > 59) return fail(t.timeInput.seconds);
+
+  return {
+    ok: true,
+    kind: "clock",
+    targetMs: nextWallTime(now.getTime(), hh, mm, ss, zone ?? localZone()),
+    zone,
+  };
+}
+
+export function parseTimeInput(
+  value: string,
+  now: Date,
+  t: Messages,
+): TimeInputResult {
+  let text = value.trim();
+  if (!text) return fail(t.timeInput.empty);
+
+  let zone: string | null = null;
+  const z = ZONE_SUFFIX_RE.exec(text);
+  if (z) {
+    zone = canonicalZone(z[1]);
+    if (!zone) return fail(t.timeInput.unknownZone(z[1]));
+    text = text.slice(0, z.index);
+  }
+  text = text.toLowerCase();
+
+  const clock = parseClock(text, now, zone, t);
+  if (clock) return clock;
+  const duration = parseDuration(text, now.getTime(), t);
+  if (duration && zone) return fail(t.timeInput.zoneOnlyClock);
+  if (duration) return duration;
+
+  if (/^\d+$/.test(text)) return fail(t.timeInput.bareNumber(text));
+  return fail(t.timeInput.unknown(TIME_INPUT_EXAMPLES));
+}
+
+/** Alvo no fuso local, no fuso escolhido (se outro) e em quanto tempo. */
+export function describeTarget(
+  targetMs: number,
+  zone: string | null,
+  nowMs: number,
+  t: Messages,
+  locale: Locale,
+) {
+  const target = new Date(targetMs);
+  const today = new Date(nowMs);
+  today.setHours(0, 0, 0, 0);
+  const days = Math.round(
+    (new Date(targetMs).setHours(0, 0, 0, 0) - today.getTime()) / 86400000,
+  );
+  const day =
+    days === 0
+      ? ""
+      : days === 1
+        ? t.timeInput.tomorrow
+        : t.timeInput.onDate(formatDayMonth(target, locale));
+  const other =
+    zone && zone !== localZone()
+      ? t.timeInput.inZone(
+          formatInZone(targetMs, zone),
+          zone,
+          formatOffset(targetMs, zone),
+        )
+      : "";
+  const left = formatHMS(Math.ceil((targetMs - nowMs) / 1000));
+  return `${t.timeInput.endsAt(formatClock(target))}${day}${other}${t.timeInput.in(left)}`;
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import {
+  canSnooze,
+  createTimerState,
+  getRemainingMs,
+  getUrgency,
+  SNOOZE_GRACE_MS,
+  stamp,
+  timerReducer,
+  type Clock,
+  type TimerCommand,
+  type TimerState,
+} from "@/lib/timer-engine";
+
+const MIN = 60 * 1000;
+
+/** Relógio falso: o teste decide quando o tempo anda. */
+function fakeClock(start = 0) {
+  let now = start;
+  return {
+    now: () => now,
+    advance(ms: number) {
+      now += ms;
+    },
+  } satisfies Clock & { advance: (ms: number) => void };
+}
+
+function driver(state: TimerState, clock: Clock) {
+  return {
+    state,
+    send(command: TimerCommand) {
+      this.state = timerReducer(this.state, stamp(command, clock));
+      return this.state;
+    },
+  };
+}
+
+function pomodoro(clock: Clock) {
+  const timer = driver(createTimerState(clock.now()), clock);
+  timer.send({ type: "setMode", mode: "pomodoro" });
+  return timer;
+}
+
+describe("horario", () => {
+  it("finishes at the target and records a completed session", () => {
+    const clock = fakeClock();
+    const timer = driver(createTimerState(0), clock);
+    timer.send({ type: "start", targetMs: 10 * MIN });
+
+    clock.advance(5 * MIN);
+    expect(timer.send({ type: "tick" }).status).toBe("running");
+    expect(getRemainingMs(timer.state, clock.now())).toBe(5 * MIN);
+
+    clock.advance(5 * MIN);
+    const done = timer.send({ type: "tick" });
+    expect(done.status).toBe("finished");
+    expect(done.lastFinish?.seq).toBe(1);
+    expect(done.endedSessions).toHaveLength(1);
+    expect(done.endedSessions[0]).toMatchObject({
+      outcome: "completed",
+      plannedMs: 10 * MIN,
+      actualMs: 10 * MIN,
+    });
+  });
+
+  it("resets a finished timer without finishing it again", () => {
+    const clock = fakeClock();
+    const timer = driver(createTimerState(0), clock);
+    timer.send({ type: "start", targetMs: MIN });
+    clock.advance(MIN);
+    timer.send({ type: "tick" });
+
+    clock.advance(MIN);
+    const reset = timer.send({ type: "reset" });
+    expect(reset.status).toBe("ready");
+    expect(reset.lastFinish?.seq).toBe(1);
+    expect(reset.endedSessions).toHaveLength(1);
+  });
+
+  it("pushes the target by the paused time", () => {
+    const clock = fakeClock();
+    const timer = driver(createTimerState(0), clock);
+    timer.send({ type: "start", targetMs: 10 * MIN });
+
+    clock.advance(2 * MIN);
+    timer.send({ type: "pause" });
+    clock.advance(3 * MIN);
+    timer.send({ type: "resume" });
+
+    expect(timer.state.targetMs).toBe(13 * MIN);
+    expect(getUrgency(timer.state, clock.now())).toBe("normal");
+  });
+});
+
+describe("pomodoro", () => {
+  it("moves from work to break and counts the cycle", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "startPhase", phase: "work" });
+
+    clock.advance(25 * MIN);
+    const next = timer.send({ type: "tick" });
+    expect(next.pomodoro).toMatchObject({ phase: "break", cycleCount: 1 });
+    expect(next.status).toBe("running");
+    expect(next.targetMs).toBe(30 * MIN);
+    expect(next.lastFinish).toMatchObject({ mode: "pomodoro", phase: "work" });
+  });
+
+  it("counts a cycle only when the skipped work phase ran", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "setSettings", settings: { autoStartWork: false } });
+    timer.send({ type: "startPhase", phase: "break" });
+    clock.advance(5 * MIN);
+    expect(timer.send({ type: "tick" })).toMatchObject({
+      status: "ready",
+      pomodoro: { phase: "work", cycleCount: 0 },
+    });
+
+    expect(timer.send({ type: "skip" }).pomodoro).toMatchObject({
+      phase: "break",
+      cycleCount: 0,
+    });
+
+    timer.send({ type: "startPhase", phase: "work" });
+    clock.advance(MIN);
+    expect(timer.send({ type: "skip" }).pomodoro).toMatchObject({
+      phase: "break",
+      cycleCount: 1,
+    });
+  });
+
+  it("waits for the user when auto-start is off", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "setSettings", settings: { autoStartBreak: false } });
+    timer.send({ type: "startPhase", phase: "work" });
+
+    clock.advance(25 * MIN);
+    expect(timer.send({ type: "tick" }).status).toBe("ready");
+
+    clock.advance(MIN);
+    const started = timer.send({ type: "startNext" });
+    expect(started.status).toBe("running");
+    expect(started.targetMs).toBe(clock.now() + 5 * MIN);
+  });
+});
+
+describe("snooze", () => {
+  it("undoes the auto-started phase while it is just beginning", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "startPhase", phase: "work" });
+    clock.advance(25 * MIN);
+    timer.send({ type: "tick" });
+
+    clock.advance(30 * 1000);
+    expect(timer.state.status).toBe("running");
+    expect(canSnooze(timer.state, clock.now())).toBe(true);
+    expect(canSnooze(timer.state, clock.now() + SNOOZE_GRACE_MS)).toBe(false);
+
+    const snoozed = timer.send({ type: "snooze", minutes: 5 });
+    expect(snoozed.pomodoro).toMatchObject({ phase: "work", cycleCount: 0 });
+    expect(snoozed.session).toMatchObject({ snooze: true, phase: "work" });
+    expect(snoozed.targetMs).toBe(clock.now() + 5 * MIN);
+    // a pausa descartada não vira sessão
+    expect(snoozed.endedSessions).toHaveLength(1);
+  });
+
+  it("is not offered after the phase was skipped", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "startPhase", phase: "work" });
+    clock.advance(25 * MIN);
+    timer.send({ type: "tick" });
+    timer.send({ type: "skip" });
+    expect(canSnooze(timer.state, clock.now())).toBe(false);
+  });
+});
+
+describe("late tick", () => {
+  it("keeps the next phase on schedule when the tick is only throttled", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "startPhase", phase: "work" });
+
+    clock.advance(27 * MIN);
+    const next = timer.send({ type: "tick" });
+    expect(next.endedSessions).toHaveLength(1);
+    expect(next.endedSessions[0].endedAtMs).toBe(25 * MIN);
+    expect(next.session?.startedAtMs).toBe(25 * MIN);
+    expect(next.targetMs).toBe(30 * MIN);
+  });
+
+  it("does not invent sessions for phases that passed while asleep", () => {
+    const clock = fakeClock();
+    const timer = pomodoro(clock);
+    timer.send({ type: "startPhase", phase: "work" });
+
+    clock.advance(10 * 60 * MIN);
+    const next = timer.send({ type: "tick" });
+    expect(next.endedSessions).toHaveLength(1);
+    expect(next.endedSessions[0]).toMatchObject({
+      outcome: "completed",
+      phase: "work",
+      endedAtMs: 25 * MIN,
+      actualMs: 25 * MIN,
+      plannedMs: 25 * MIN,
+    });
+    expect(next.lastFinish?.seq).toBe(1);
+    expect(next.pomodoro).toMatchObject({ phase: "break", cycleCount: 1 });
+    expect(next.session?.startedAtMs).toBe(clock.now());
+    expect(next.targetMs).toBe(clock.now() + 5 * MIN);
+  });
+});
+
+describe("cronometro", () => {
+  it("records laps and stops into a completed session", () => {
+    const clock = fakeClock();
+    const timer = driver(createTimerState(0), clock);
+    timer.send({ type: "setMode", mode: "cronometro" });
+    timer.send({ type: "startStopwatch" });
+
+    clock.advance(1500);
+    timer.send({ type: "lap" });
+    clock.advance(500);
+    const stopped = timer.send({ type: "reset" });
+
+    expect(stopped.status).toBe("ready");
+    expect(stopped.endedSessions.at(-1)).toMatchObject({
+      mode: "cronometro",
+      outcome: "completed",
+      actualMs: 2000,
+    });
+  });
+
+  it("leaves the stopwatch to start a pomodoro phase", () => {
+    const clock = fakeClock();
+    const timer = driver(createTimerState(0), clock);
+    timer.send({ type: "setMode", mode: "cronometro" });
+    timer.send({ type: "startStopwatch" });
+
+    clock.advance(MIN);
+    const next = timer.send({ type: "startPhase", phase: "break" });
+    expect(next.mode).toBe("pomodoro");
+    expect(next.status).toBe("running");
+    expect(next.pomodoro.phase).toBe("break");
+    expect(next.targetMs).toBe(clock.now() + 5 * MIN);
+    expect(next.endedSessions.at(-1)).toMatchObject({
+      mode: "cronometro",
+      actualMs: MIN,
+    });
+  });
+});
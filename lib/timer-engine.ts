@@ -0,0 +1,737 @@
+/* =========================
+   Timer engine
+
+   Máquina de estados pura (sem React/DOM). Todo evento carrega o
+   instante `at` em ms, vindo de um `Clock` injetável, então dá para
+   rodar o motor inteiro com um relógio falso.
+========================= */
+import { nextOccurrence, type RepeatRule } from "@/lib/schedule";
+
+/** `cronometro` conta para cima, sem alvo. */
+export type TimerMode = "horario" | "pomodoro" | "cronometro";
+export type PomodoroPhase = "work" | "break" | "longBreak";
+/** `ready`: a fase seguinte já foi escolhida e espera o usuário iniciar. */
+export type TimerStatus = "running" | "paused" | "ready" | "finished";
+/** quanto falta, para cores e avisos visuais */
+export type Urgency = "normal" | "warning" | "critical";
+
+export type Clock = { now: () => number };
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export type PomodoroSettings = {
+  workMin: number;
+  breakMin: number;
+  longBreakMin: number;
+  longBreakEvery: number;
+  autoStartWork: boolean;
+  autoStartBreak: boolean;
+};
+
+export type TimerFinish = {
+  /** cresce a cada término, para a view disparar som/notificação uma vez */
+  seq: number;
+  at: number;
+  targetMs: number;
+  mode: TimerMode;
+  phase: PomodoroPhase;
+  /** ciclo antes do término, para o "soneca" poder voltar à mesma fase */
+  cycleCount: number;
+};
+
+/** Sessão em andamento (um alvo de horário ou uma fase do pomodoro). */
+export type TimerSession = {
+  mode: TimerMode;
+  phase: PomodoroPhase;
+  startedAtMs: number;
+  /** já inclui as prorrogações */
+  plannedMs: number;
+  pausedMs: number;
+  /** minutos somados com "+N min" (parte de `plannedMs`) */
+  extendedMs: number;
+  /** soneca: continua uma sessão que já terminou */
+  snooze: boolean;
+};
+
+/**
+ * Cronômetro: o tempo decorrido é `now - originMs` (ou `pausedAtMs -
+ * originMs` pausado); ao retomar, a origem anda junto, como o alvo.
+ * `laps` guarda o tempo acumulado em cada volta.
+ */
+export type Stopwatch = {
+  originMs: number;
+  laps: number[];
+};
+
+export type SessionOutcome = "completed" | "skipped" | "zeroed";
+
+export type TimerSessionEnd = {
+  seq: number;
+  outcome: SessionOutcome;
+  mode: TimerMode;
+  phase: PomodoroPhase;
+  startedAtMs: number;
+  endedAtMs: number;
+  plannedMs: number;
+  actualMs: number;
+  extendedMs: number;
+  snooze: boolean;
+};
+
+export type TimerState = {
+  mode: TimerMode;
+  status: TimerStatus;
+  targetMs: number;
+  /** fuso IANA em que o alvo foi definido (só para exibição) */
+  targetZone: string | null;
+  pausedAtMs: number | null;
+
+  pomodoro: {
+    enabled: boolean;
+    phase: PomodoroPhase;
+    cycleCount: number;
+  };
+  settings: PomodoroSettings;
+  stopwatch: Stopwatch;
+  /** alarme recorrente (só no modo horário) */
+  repeat: RepeatRule | null;
+
+  session: TimerSession | null;
+  lastFinish: TimerFinish | null;
+  /** sessões encerradas mais recentes (várias podem fechar num só tick) */
+  endedSessions: TimerSessionEnd[];
+};
+
+export type TimerEvent =
+  | { type: "start"; at: number; targetMs: number; zone?: string | null }
+  | { type: "startPhase"; at: number; phase: PomodoroPhase }
+  | { type: "tick"; at: number }
+  | { type: "finish"; at: number }
+  | { type: "skip"; at: number }
+  | { type: "startStopwatch"; at: number }
+  | { type: "lap"; at: number }
+  | { type: "startNext"; at: number }
+  | {
+      type: "snooze";
+      at: number;
+      minutes: number;
+      /** início da soneca (padrão: `at`) */
+      from?: number;
+      /** término a retomar (padrão: `lastFinish`) */
+      finished?: Pick<TimerFinish, "mode" | "phase" | "cycleCount">;
+    }
+  | { type: "extend"; at: number; minutes: number }
+  | { type: "reset"; at: number }
+  | { type: "resetCycle"; at: number }
+  | { type: "pause"; at: number }
+  | { type: "resume"; at: number }
+  | { type: "setMode"; at: number; mode: TimerMode }
+  | { type: "setSettings"; at: number; settings: Partial<PomodoroSettings> }
+  | { type: "setRepeat"; at: number; repeat: RepeatRule | null }
+  | { type: "hydrate"; at: number; state: TimerState };
+
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/** Evento ainda sem carimbo de tempo. */
+export type TimerCommand = DistributiveOmit<TimerEvent, "at">;
+
+const MAX_ENDED_SESSIONS = 16;
+const MAX_LAPS = 999;
+export const MAX_EXTEND_MIN = 120;
+// com auto-início, a soneca ainda desfaz a fase que acabou de começar
+export const SNOOZE_GRACE_MS = 2 * 60 * 1000;
+// o menor dos dois: fração da contagem ou tempo absoluto
+const WARNING_FRACTION = 0.2;
+const WARNING_MS = 5 * 60 * 1000;
+const CRITICAL_FRACTION = 0.05;
+const CRITICAL_MS = 60 * 1000;
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMin: 25,
+  breakMin: 5,
+  longBreakMin: 15,
+  longBreakEvery: 4,
+  autoStartWork: true,
+  autoStartBreak: true,
+};
+
+export function withAt(command: TimerCommand, at: number): TimerEvent {
+  return { ...command, at } as TimerEvent;
+}
+
+export function stamp(command: TimerCommand, clock: Clock): TimerEvent {
+  return withAt(command, clock.now());
+}
+
+export function createTimerState(targetMs: number): TimerState {
+  return {
+    mode: "horario",
+    status: "running",
+    targetMs,
+    targetZone: null,
+    pausedAtMs: null,
+    pomodoro: { enabled: false, phase: "work", cycleCount: 0 },
+    settings: { ...DEFAULT_POMODORO_SETTINGS },
+    stopwatch: { originMs: 0, laps: [] },
+    repeat: null,
+    session: null,
+    lastFinish: null,
+    endedSessions: [],
+  };
+}
+
+export function phaseDurationMs(
+  settings: PomodoroSettings,
+  phase: PomodoroPhase,
+) {
+  const mins =
+    phase === "work"
+      ? settings.workMin
+      : phase === "break"
+        ? settings.breakMin
+        : settings.longBreakMin;
+  return mins * 60 * 1000;
+}
+
+/* =========================
+   Selectors
+========================= */
+export function getRemainingMs(state: TimerState, now: number) {
+  if (state.status === "finished" || state.mode === "cronometro") return 0;
+  if (state.status === "ready") {
+    return state.mode === "pomodoro"
+      ? phaseDurationMs(state.settings, state.pomodoro.phase)
+      : 0;
+  }
+  const ref =
+    state.status === "paused" && state.pausedAtMs !== null
+      ? state.pausedAtMs
+      : now;
+  return Math.max(0, state.targetMs - ref);
+}
+
+export function getRemainingSeconds(state: TimerState, now: number) {
+  return Math.ceil(getRemainingMs(state, now) / 1000);
+}
+
+export function getElapsedMs(state: TimerState, now: number) {
+  if (state.mode !== "cronometro" || state.status === "ready") return 0;
+  const ref =
+    state.status === "paused" && state.pausedAtMs !== null
+      ? state.pausedAtMs
+      : now;
+  return Math.max(0, ref - state.stopwatch.originMs);
+}
+
+export function getElapsedSeconds(state: TimerState, now: number) {
+  return Math.floor(getElapsedMs(state, now) / 1000);
+}
+
+/** Duração total da contagem atual (com prorrogações); 0 se não houver. */
+export function getTotalMs(state: TimerState) {
+  if (state.mode === "cronometro") return 0;
+  if (state.session) return state.session.plannedMs;
+  return state.mode === "pomodoro"
+    ? phaseDurationMs(state.settings, state.pomodoro.phase)
+    : 0;
+}
+
+/** Fração já decorrida da contagem, de 0 a 1. */
+export function getProgress(state: TimerState, now: number) {
+  if (state.status === "finished") return 1;
+  const total = getTotalMs(state);
+  if (!total || state.status === "ready") return 0;
+  const remaining = getRemainingMs(state, now);
+  return Math.min(1, Math.max(0, 1 - remaining / total));
+}
+
+export function getUrgency(state: TimerState, now: number): Urgency {
+  if (state.mode === "cronometro" || state.status === "ready") return "normal";
+  if (state.status === "finished") return "critical";
+  const remaining = getRemainingMs(state, now);
+  const total = getTotalMs(state) || remaining;
+  if (remaining <= Math.min(total * CRITICAL_FRACTION, CRITICAL_MS)) {
+    return "critical";
+  }
+  if (remaining <= Math.min(total * WARNING_FRACTION, WARNING_MS)) {
+    return "warning";
+  }
+  return "normal";
+}
+
+/**
+ * Pressão do fim, de 0 a 1: sobe dentro da janela de aviso até zerar.
+ * Só vale para contagem rodando.
+ */
+export function getUrgencyLevel(state: TimerState, now: number) {
+  if (state.mode === "cronometro" || state.status !== "running") return 0;
+  const remaining = getRemainingMs(state, now);
+  const total = getTotalMs(state) || remaining;
+  const window = Math.min(total * WARNING_FRACTION, WARNING_MS);
+  if (!window || remaining >= window) return 0;
+  return 1 - remaining / window;
+}
+
+/**
+ * A soneca tem o que retomar? Vale no horário finalizado e no pomodoro
+ * logo após um término (não depois de pular a fase): parado esperando
+ * ou, com auto-início, nos primeiros instantes da fase seguinte.
+ */
+export function canSnooze(state: TimerState, now: number) {
+  if (state.mode === "cronometro") return false;
+  if (state.status === "finished") return true;
+  const done = state.lastFinish;
+  if (state.mode !== "pomodoro" || done?.mode !== "pomodoro") return false;
+  const last = state.endedSessions[state.endedSessions.length - 1];
+  if (last && (last.endedAtMs > done.at || last.outcome === "skipped")) {
+    return false;
+  }
+  if (state.status === "ready") return true;
+  return (
+    state.status === "running" &&
+    state.session?.startedAtMs === done.at &&
+    now - done.at < SNOOZE_GRACE_MS
+  );
+}
+
+/** Próxima virada de segundo do cronômetro (não coincide com a do relógio). */
+export function nextStopwatchSecondMs(state: TimerState, now: number) {
+  const { originMs } = state.stopwatch;
+  return originMs + (Math.floor((now - originMs) / 1000) + 1) * 1000;
+}
+
+/* =========================
+   Transitions
+========================= */
+/** `ran`: a fase de trabalho chegou a rodar e fecha um ciclo. */
+function nextPhase(
+  state: TimerState,
+  ran = true,
+): {
+  phase: PomodoroPhase;
+  cycleCount: number;
+} {
+  const { phase, cycleCount } = state.pomodoro;
+  if (phase !== "work") return { phase: "work", cycleCount };
+  if (!ran) return { phase: "break", cycleCount };
+
+  const nextCount = cycleCount + 1;
+  if (nextCount >= state.settings.longBreakEvery) {
+    return { phase: "longBreak", cycleCount: 0 };
+  }
+  return { phase: "break", cycleCount: nextCount };
+}
+
+function beginSession(
+  state: TimerState,
+  at: number,
+  snooze = false,
+): TimerState {
+  const plannedMs = Math.max(0, state.targetMs - at);
+  return {
+    ...state,
+    session: {
+      mode: state.mode,
+      phase: state.pomodoro.phase,
+      startedAtMs: at,
+      plannedMs,
+      pausedMs: 0,
+      // a soneca inteira é tempo além do planejado
+      extendedMs: snooze ? plannedMs : 0,
+      snooze,
+    },
+  };
+}
+
+function endSession(
+  state: TimerState,
+  at: number,
+  outcome: SessionOutcome,
+): TimerState {
+  const s = state.session;
+  if (!s) return state;
+  const pausedNow = state.pausedAtMs !== null ? at - state.pausedAtMs : 0;
+  const ended: TimerSessionEnd = {
+    seq: (state.endedSessions[state.endedSessions.length - 1]?.seq ?? 0) + 1,
+    outcome,
+    mode: s.mode,
+    phase: s.phase,
+    startedAtMs: s.startedAtMs,
+    endedAtMs: at,
+    plannedMs: s.plannedMs,
+    actualMs: Math.max(0, at - s.startedAtMs - s.pausedMs - pausedNow),
+    extendedMs: s.extendedMs,
+    snooze: s.snooze,
+  };
+  return {
+    ...state,
+    session: null,
+    endedSessions: [...state.endedSessions, ended].slice(-MAX_ENDED_SESSIONS),
+  };
+}
+
+function advance(
+  state: TimerState,
+  at: number,
+  autoStart = true,
+  ran = true,
+): TimerState {
+  const next = nextPhase(state, ran);
+  if (!autoStart) {
+    return {
+      ...state,
+      status: "ready",
+      pausedAtMs: null,
+      pomodoro: { ...state.pomodoro, ...next },
+    };
+  }
+  return beginSession(
+    {
+      ...state,
+      status: "running",
+      pausedAtMs: null,
+      pomodoro: { ...state.pomodoro, ...next },
+      targetMs: at + phaseDurationMs(state.settings, next.phase),
+    },
+    at,
+  );
+}
+
+function shouldAutoStart(state: TimerState) {
+  return nextPhase(state).phase === "work"
+    ? state.settings.autoStartWork
+    : state.settings.autoStartBreak;
+}
+
+/** Arma a próxima ocorrência do alarme recorrente. */
+function rearm(state: TimerState, rule: RepeatRule, at: number): TimerState {
+  return beginSession(
+    {
+      ...state,
+      status: "running",
+      pausedAtMs: null,
+      targetMs: nextOccurrence(rule, Math.max(at, state.targetMs)),
+      targetZone: rule.zone ?? null,
+    },
+    at,
+  );
+}
+
+/** Cronômetro volta ao zero; a medição vira uma sessão concluída. */
+function stopStopwatch(state: TimerState, at: number): TimerState {
+  return {
+    ...endSession(state, at, "completed"),
+    status: "ready",
+    pausedAtMs: null,
+    stopwatch: { originMs: 0, laps: [] },
+  };
+}
+
+/** Arma de novo, a partir de `at`, a contagem que já rodava. */
+function restart(state: TimerState, at: number): TimerState {
+  const base = { ...state, session: null };
+  if (state.mode === "horario" && state.repeat?.enabled) {
+    return rearm({ ...base, targetMs: at }, state.repeat, at);
+  }
+  return beginSession(
+    {
+      ...base,
+      targetMs: at + phaseDurationMs(state.settings, state.pomodoro.phase),
+    },
+    at,
+  );
+}
+
+function finish(
+  prev: TimerState,
+  at: number,
+  outcome: SessionOutcome = "completed",
+): TimerState {
+  const state = endSession(prev, at, outcome);
+  const lastFinish: TimerFinish = {
+    seq: (state.lastFinish?.seq ?? 0) + 1,
+    at,
+    targetMs: state.targetMs,
+    mode: state.mode,
+    phase: state.pomodoro.phase,
+    cycleCount: state.pomodoro.cycleCount,
+  };
+
+  if (state.mode === "pomodoro" && state.pomodoro.enabled) {
+    return { ...advance(state, at, shouldAutoStart(state)), lastFinish };
+  }
+
+  if (state.mode === "horario" && state.repeat?.enabled) {
+    return { ...rearm(state, state.repeat, at), lastFinish };
+  }
+
+  return { ...state, status: "finished", pausedAtMs: null, lastFinish };
+}
+
+export function timerReducer(state: TimerState, event: TimerEvent): TimerState {
+  if (state.mode === "cronometro") {
+    const next = stopwatchReducer(state, event);
+    if (next) return next;
+  }
+
+  switch (event.type) {
+    case "start":
+      return beginSession(
+        {
+          ...state,
+          status: "running",
+          pausedAtMs: null,
+          targetMs: event.targetMs,
+          targetZone: event.zone ?? null,
+        },
+        event.at,
+      );
+
+    case "startPhase":
+      return beginSession(
+        {
+          ...state,
+          mode: "pomodoro",
+          status: "running",
+          pausedAtMs: null,
+          pomodoro: { ...state.pomodoro, enabled: true, phase: event.phase },
+          targetMs: event.at + phaseDurationMs(state.settings, event.phase),
+        },
+        event.at,
+      );
+
+    case "tick": {
+      if (state.status !== "running" || event.at < state.targetMs) {
+        return state;
+      }
+      // encerra a fase no próprio alvo (sem deriva), mesmo que o tick
+      // chegue atrasado por aba dormindo ou máquina suspensa
+      const next = finish(state, state.targetMs);
+      if (next.status !== "running" || event.at < next.targetMs) return next;
+      // a fase seguinte começou e acabou durante a suspensão: ninguém a
+      // viu rodar, então não vira sessão nem ciclo; recomeça do "agora"
+      return restart(next, event.at);
+    }
+
+    case "finish":
+      if (state.status === "finished" || state.status === "ready") {
+        return state;
+      }
+      return finish(state, event.at);
+
+    case "skip":
+      if (state.mode !== "pomodoro" || !state.pomodoro.enabled) return state;
+      // pular o trabalho que nem começou não conta ciclo
+      return advance(
+        endSession(state, event.at, "skipped"),
+        event.at,
+        true,
+        state.session !== null,
+      );
+
+    case "startNext":
+      // inicia a fase que está aguardando (sem auto-início)
+      if (state.status !== "ready") return state;
+      return timerReducer(state, {
+        type: "startPhase",
+        at: event.at,
+        phase: state.pomodoro.phase,
+      });
+
+    case "snooze": {
+      // "Soneca": roda mais alguns minutos a partir de `from` (o clique na
+      // notificação pode chegar bem depois). No pomodoro, volta para a fase
+      // que acabou de terminar, descartando a seguinte que mal começou.
+      const from = event.from ?? event.at;
+      const base: TimerState = {
+        ...state,
+        status: "running",
+        pausedAtMs: null,
+        targetMs: from + clampMinutes(event.minutes) * 60 * 1000,
+        session: null,
+      };
+      const done = event.finished ?? state.lastFinish;
+      if (state.mode === "pomodoro" && done?.mode === "pomodoro") {
+        return beginSession(
+          {
+            ...base,
+            pomodoro: {
+              ...state.pomodoro,
+              phase: done.phase,
+              cycleCount: done.cycleCount,
+            },
+          },
+          from,
+          true,
+        );
+      }
+      return beginSession(base, from, true);
+    }
+
+    case "extend": {
+      // "+N min" com a contagem rodando: empurra o alvo antes de terminar
+      if (state.status !== "running" && state.status !== "paused") {
+        return state;
+      }
+      const ms = clampMinutes(event.minutes) * 60 * 1000;
+      if (!ms) return state;
+      return {
+        ...state,
+        targetMs: state.targetMs + ms,
+        session: state.session && {
+          ...state.session,
+          plannedMs: state.session.plannedMs + ms,
+          extendedMs: state.session.extendedMs + ms,
+        },
+      };
+    }
+
+    case "reset":
+      // "Zerar": encerra agora, com som/notificação e avanço de fase
+      if (state.status === "ready") return state;
+      // já terminou: só volta ao repouso, sem tocar/notificar de novo
+      if (state.status === "finished") {
+        return { ...state, status: "ready", pausedAtMs: null };
+      }
+      return finish({ ...state, targetMs: event.at }, event.at, "zeroed");
+
+    case "resetCycle":
+      return {
+        ...state,
+        pomodoro: { ...state.pomodoro, phase: "work", cycleCount: 0 },
+      };
+
+    case "pause":
+      if (state.status !== "running") return state;
+      return { ...state, status: "paused", pausedAtMs: event.at };
+
+    case "resume": {
+      if (state.status !== "paused" || state.pausedAtMs === null) return state;
+      // empurra o alvo pelo tempo que ficou pausado
+      const pausedFor = event.at - state.pausedAtMs;
+      return {
+        ...state,
+        status: "running",
+        pausedAtMs: null,
+        targetMs: state.targetMs + pausedFor,
+        session: state.session && {
+          ...state.session,
+          pausedMs: state.session.pausedMs + pausedFor,
+        },
+        stopwatch:
+          state.mode === "cronometro"
+            ? {
+                ...state.stopwatch,
+                originMs: state.stopwatch.originMs + pausedFor,
+              }
+            : state.stopwatch,
+      };
+    }
+
+    case "setMode":
+      if (event.mode === "cronometro") return switchMode(state, event);
+      return { ...state, mode: event.mode };
+
+    case "startStopwatch":
+    case "lap":
+      return state;
+
+    case "setSettings":
+      return { ...state, settings: { ...state.settings, ...event.settings } };
+
+    case "setRepeat": {
+      const next = { ...state, repeat: event.repeat };
+      if (state.mode !== "horario" || !event.repeat) return next;
+      if (!event.repeat.enabled) {
+        // desativado: fica parado até reativar
+        return { ...next, status: "ready", pausedAtMs: null, session: null };
+      }
+      return rearm({ ...next, targetMs: event.at }, event.repeat, event.at);
+    }
+
+    case "hydrate":
+      return event.state;
+  }
+}
+
+function clampMinutes(minutes: number) {
+  return Number.isFinite(minutes)
+    ? Math.min(MAX_EXTEND_MIN, Math.max(0, Math.round(minutes)))
+    : 0;
+}
+
+/** Entrar ou sair do cronômetro encerra o que estava rodando. */
+function switchMode(
+  state: TimerState,
+  event: Extract<TimerEvent, { type: "setMode" }>,
+): TimerState {
+  if (event.mode === state.mode) return state;
+  const ended =
+    state.mode === "cronometro"
+      ? stopStopwatch(state, event.at)
+      : endSession(state, event.at, "zeroed");
+  return { ...ended, mode: event.mode, status: "ready", pausedAtMs: null };
+}
+
+/** Eventos com regra própria no cronômetro; `null` segue o fluxo comum. */
+function stopwatchReducer(
+  state: TimerState,
+  event: TimerEvent,
+): TimerState | null {
+  switch (event.type) {
+    case "startStopwatch":
+      if (state.status !== "ready") return state;
+      return beginSession(
+        {
+          ...state,
+          status: "running",
+          pausedAtMs: null,
+          targetMs: event.at,
+          stopwatch: { originMs: event.at, laps: [] },
+        },
+        event.at,
+      );
+
+    case "lap": {
+      if (state.status !== "running") return state;
+      const { laps } = state.stopwatch;
+      if (laps.length >= MAX_LAPS) return state;
+      return {
+        ...state,
+        stopwatch: {
+          ...state.stopwatch,
+          laps: [...laps, getElapsedMs(state, event.at)],
+        },
+      };
+    }
+
+    case "reset":
+      if (state.status === "ready") return state;
+      return stopStopwatch(state, event.at);
+
+    case "setMode":
+      return switchMode(state, event);
+
+    case "startPhase":
+      // atalhos e paleta saem do cronômetro direto para a fase
+      return timerReducer(
+        switchMode(state, { type: "setMode", at: event.at, mode: "pomodoro" }),
+        event,
+      );
+
+    // sem alvo: nada termina, nada avança
+    case "start":
+    case "startNext":
+    case "snooze":
+    case "extend":
+    case "tick":
+    case "finish":
+    case "skip":
+      return state;
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,166 @@
+/* =========================
+   Timers (lista de timers nomeados)
+
+   Cada item tem o próprio `TimerState`; o tick é aplicado a todos
+   com o mesmo instante.
+========================= */
+import type { RepeatRule } from "@/lib/schedule";
+import {
+  createTimerState,
+  timerReducer,
+  withAt,
+  type DistributiveOmit,
+  type TimerCommand,
+  type TimerState,
+} from "@/lib/timer-engine";
+import { nextWallTime } from "@/lib/timezone";
+
+export type NamedTimer = {
+  id: string;
+  name: string;
+  timer: TimerState;
+};
+
+export type TimersState = {
+  timers: NamedTimer[];
+  activeId: string;
+};
+
+export type TimersEvent =
+  | { type: "add"; at: number; timer: NamedTimer }
+  | { type: "remove"; at: number; id: string }
+  | { type: "rename"; at: number; id: string; name: string }
+  | { type: "move"; at: number; id: string; offset: -1 | 1 }
+  | { type: "select"; at: number; id: string }
+  | { type: "timer"; at: number; id: string; command: TimerCommand }
+  | { type: "tick"; at: number }
+  | { type: "hydrate"; at: number; state: TimersState };
+
+export type TimersCommand = DistributiveOmit<TimersEvent, "at">;
+
+export function createTimerId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createNamedTimer(name: string, timer: TimerState): NamedTimer {
+  return { id: createTimerId(), name, timer };
+}
+
+/**
+ * Algum timer chega ao alvo em `at`? Só esse tick muda o estado (os
+ * outros apenas andam o relógio da tela).
+ */
+export function hasDueTimer(state: TimersState, at: number) {
+  return state.timers.some(
+    ({ timer }) =>
+      timer.mode !== "cronometro" &&
+      timer.status === "running" &&
+      at >= timer.targetMs,
+  );
+}
+
+/** Alvo inicial: o minuto atual, amanhã (como o timer sempre começou). */
+export function defaultTargetMs() {
+  const d = new Date();
+  return nextWallTime(d.getTime(), d.getHours(), d.getMinutes());
+}
+
+export function createDefaultTimer(name: string) {
+  return createNamedTimer(name, createTimerState(defaultTargetMs()));
+}
+
+/** Alarme recorrente já armado para a próxima ocorrência. */
+export function createAlarmTimer(
+  name: string,
+  repeat: RepeatRule,
+  now: number,
+) {
+  return createNamedTimer(
+    name,
+    timerReducer(createTimerState(now), { type: "setRepeat", at: now, repeat }),
+  );
+}
+
+export function createInitialTimers(): TimersState {
+  const first = createDefaultTimer("Timer 1");
+  return { timers: [first], activeId: first.id };
+}
+
+export function getActiveTimer(state: TimersState): NamedTimer {
+  return state.timers.find((t) => t.id === state.activeId) ?? state.timers[0];
+}
+
+function mapTimers(
+  state: TimersState,
+  fn: (t: NamedTimer) => NamedTimer,
+): TimersState {
+  let changed = false;
+  const timers = state.timers.map((t) => {
+    const next = fn(t);
+    if (next !== t) changed = true;
+    return next;
+  });
+  return changed ? { ...state, timers } : state;
+}
+
+export function timersReducer(
+  state: TimersState,
+  event: TimersEvent,
+): TimersState {
+  switch (event.type) {
+    case "add":
+      return {
+        timers: [...state.timers, event.timer],
+        activeId: event.timer.id,
+      };
+
+    case "remove": {
+      if (state.timers.length <= 1) return state;
+      const idx = state.timers.findIndex((t) => t.id === event.id);
+      if (idx < 0) return state;
+      const timers = state.timers.filter((t) => t.id !== event.id);
+      const activeId =
+        state.activeId === event.id
+          ? timers[Math.max(0, idx - 1)].id
+          : state.activeId;
+      return { timers, activeId };
+    }
+
+    case "rename": {
+      const name = event.name.trim();
+      if (!name) return state;
+      return mapTimers(state, (t) =>
+        t.id === event.id && t.name !== name ? { ...t, name } : t,
+      );
+    }
+
+    case "move": {
+      const idx = state.timers.findIndex((t) => t.id === event.id);
+      const to = idx + event.offset;
+      if (idx < 0 || to < 0 || to >= state.timers.length) return state;
+      const timers = state.timers.slice();
+      [timers[idx], timers[to]] = [timers[to], timers[idx]];
+      return { ...state, timers };
+    }
+
+    case "select":
+      if (!state.timers.some((t) => t.id === event.id)) return state;
+      return { ...state, activeId: event.id };
+
+    case "timer":
+      return mapTimers(state, (t) => {
+        if (t.id !== event.id) return t;
+        const timer = timerReducer(t.timer, withAt(event.command, event.at));
+        return timer === t.timer ? t : { ...t, timer };
+      });
+
+    case "tick":
+      return mapTimers(state, (t) => {
+        const timer = timerReducer(t.timer, { type: "tick", at: event.at });
+        return timer === t.timer ? t : { ...t, timer };
+      });
+
+    case "hydrate":
+      return event.state;
+  }
+}
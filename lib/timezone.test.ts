@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalZone,
+  formatOffset,
+  nextWallTime,
+  zonedParts,
+  zonedTimeToMs,
+} from "@/lib/timezone";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("zonedTimeToMs", () => {
+  it("round-trips an ordinary wall time", () => {
+    const ms = Date.UTC(2026, 6, 1, 10, 15, 30);
+    expect(zonedTimeToMs(zonedParts(ms, "Asia/Tokyo"), "Asia/Tokyo")).toBe(ms);
+  });
+
+  it("moves a wall time inside the spring gap past the jump", () => {
+    const parts = { year: 2026, month: 3, day: 29, hour: 2, minute: 30 };
+    expect(zonedTimeToMs({ ...parts, second: 0 }, "Europe/Berlin")).toBe(
+      Date.UTC(2026, 2, 29, 1, 30),
+    );
+  });
+
+  it("picks the first of a repeated autumn hour", () => {
+    const parts = { year: 2026, month: 10, day: 25, hour: 2, minute: 30 };
+    expect(zonedTimeToMs({ ...parts, second: 0 }, "Europe/Berlin")).toBe(
+      Date.UTC(2026, 9, 25, 0, 30),
+    );
+  });
+});
+
+describe("nextWallTime", () => {
+  it("rolls over to the next day in the given zone", () => {
+    // 23:00 em Nova York
+    const now = Date.UTC(2026, 0, 6, 4, 0);
+    expect(nextWallTime(now, 7, 0, 0, "America/New_York")).toBe(
+      Date.UTC(2026, 0, 6, 12, 0),
+    );
+  });
+
+  it("keeps the wall time across a DST change", () => {
+    // sábado antes do horário de verão nos EUA
+    const now = Date.UTC(2026, 2, 7, 20, 0);
+    const next = nextWallTime(now, 9, 0, 0, "America/New_York");
+    expect(next).toBe(Date.UTC(2026, 2, 8, 13, 0));
+    expect(nextWallTime(next, 9, 0, 0, "America/New_York") - next).toBe(
+      24 * HOUR,
+    );
+  });
+});
+
+describe("zone helpers", () => {
+  it("formats offsets and rejects unknown zones", () => {
+    expect(formatOffset(Date.UTC(2026, 0, 1), "Asia/Kolkata")).toBe("UTC+5:30");
+    expect(formatOffset(Date.UTC(2026, 0, 1), "America/Sao_Paulo")).toBe(
+      "UTC−3",
+    );
+    expect(canonicalZone("Nowhere/Atlantis")).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+/* =========================
+   Fusos horários (IANA)
+
+   Converte horário de parede num fuso em instante, usando só o Intl.
+   Horário que não existe (salto do horário de verão) anda para frente
+   junto com o relógio; horário que acontece duas vezes (volta do
+   horário de verão) fica com a primeira ocorrência.
+========================= */
+import { pad2 } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(zone: string) {
+  let f = formatters.get(zone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(zone, f);
+  }
+  return f;
+}
+
+export function localZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Nome canônico do fuso, ou `null` se o navegador não conhece. */
+export function canonicalZone(zone: string): string | null {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+    }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+export function listZones(): string[] {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: "timeZone") => string[];
+  };
+  return intl.supportedValuesOf?.("timeZone") ?? [];
+}
+
+export function zonedParts(ms: number, zone: string): ZonedParts {
+  const p: Record<string, number> = {};
+  for (const { type, value } of formatter(zone).formatToParts(ms)) {
+    if (type !== "literal") p[type] = Number(value);
+  }
+  return {
+    year: p.year,
+    month: p.month,
+    day: p.day,
+    hour: p.hour,
+    minute: p.minute,
+    second: p.second,
+  };
+}
+
+function wallMs(p: ZonedParts) {
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+}
+
+/** Diferença (ms) entre o horário de parede do fuso e o UTC em `ms`. */
+export function zoneOffsetMs(ms: number, zone: string) {
+  const whole = Math.floor(ms / 1000) * 1000;
+  return wallMs(zonedParts(whole, zone)) - whole;
+}
+
+/** Instante do horário de parede `parts` no fuso (dia pode transbordar). */
+export function zonedTimeToMs(parts: ZonedParts, zone: string) {
+  const wall = wallMs(parts);
+  // um dia antes e depois pega os dois lados de qualquer transição
+  const before = zoneOffsetMs(wall - DAY_MS, zone);
+  const after = zoneOffsetMs(wall + DAY_MS, zone);
+  const valid = [before, after]
+    .map((o) => wall - o)
+    .filter((t) => wallMs(zonedParts(t, zone)) === wall);
+  if (valid.length) return Math.min(...valid);
+  // no salto: usa o deslocamento de antes, que cai depois do salto
+  return wall - before;
+}
+
+/** Próxima vez (depois de `nowMs`) em que o fuso marca hh:mm:ss. */
+export function nextWallTime(
+  nowMs: number,
+  hh: number,
+  mm: number,
+  ss = 0,
+  zone = localZone(),
+) {
+  const today = zonedParts(nowMs, zone);
+  for (let i = 0; i < 3; i++) {
+    const t = zonedTimeToMs(
+      { ...today, day: today.day + i, hour: hh, minute: mm, second: ss },
+      zone,
+    );
+    if (t > nowMs) return t;
+  }
+  return nowMs + DAY_MS;
+}
+
+/** Dia da semana (0 = domingo) de uma data de calendário. */
+export function weekdayOf(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function formatOffset(ms: number, zone: string) {
+  const min = Math.round(zoneOffsetMs(ms, zone) / 60000);
+  const sign = min < 0 ? "−" : "+";
+  const abs = Math.abs(min);
+  const h = Math.floor(abs / 60);
+  const m = abs % 60;
+  return `UTC${sign}${h}${m ? `:${pad2(m)}` : ""}`;
+}
+
+/** `HH:MM:SS` no fuso. */
+export function formatInZone(ms: number, zone: string) {
+  const p = zonedParts(ms, zone);
+  return `${pad2(p.hour)}:${pad2(p.minute)}:${pad2(p.second)}`;
+}
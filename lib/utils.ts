@@ -0,0 +1,38 @@
+/* =========================
+   Utils
+========================= */
+export function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function formatHMS(totalSeconds: number) {
+  const s = Math.max(0, totalSeconds);
+  const hh = Math.floor(s / 3600);
+  const mm = Math.floor((s % 3600) / 60);
+  const ss = s % 60;
+  return `${pad2(hh)}:${pad2(mm)}:${pad2(ss)}`;
+}
+
+/** `MM:SS` abaixo de uma hora, `H:MM:SS` acima (títulos curtos). */
+export function formatShort(totalSeconds: number) {
+  const s = Math.max(0, totalSeconds);
+  const hh = Math.floor(s / 3600);
+  const mm = Math.floor((s % 3600) / 60);
+  const ss = s % 60;
+  return hh ? `${hh}:${pad2(mm)}:${pad2(ss)}` : `${pad2(mm)}:${pad2(ss)}`;
+}
+
+/** Hora do dia em `HH:MM:SS`. */
+export function formatClock(d: Date) {
+  return `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+
+/** `HH:MM:SS.d`, para voltas do cronômetro. */
+export function formatLap(ms: number) {
+  const tenths = Math.floor(Math.max(0, ms) / 100);
+  return `${formatHMS(Math.floor(tenths / 10))}.${tenths % 10}`;
+}
+
+export function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
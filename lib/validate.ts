@@ -0,0 +1,53 @@
+/* =========================
+   Validation helpers
+
+   Leitores tolerantes para dados vindos de fora (localStorage,
+   arquivos importados): devolvem o fallback quando o valor não serve.
+========================= */
+export function asRecord(v: unknown): Record<string, unknown> {
+  return v && typeof v === "object" && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : {};
+}
+
+export function readString(v: unknown, fallback: string) {
+  return typeof v === "string" && v.trim() ? v : fallback;
+}
+
+export function readBoolean(v: unknown, fallback: boolean) {
+  return typeof v === "boolean" ? v : fallback;
+}
+
+export function readInt(
+  v: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+) {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  const n = Math.round(v);
+  return n < min || n > max ? fallback : n;
+}
+
+export function readNumber(
+  v: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+) {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  return v < min || v > max ? fallback : v;
+}
+
+export function readEnum<T extends string>(
+  v: unknown,
+  options: readonly T[],
+  fallback: T,
+): T {
+  return options.includes(v as T) ? (v as T) : fallback;
+}
+
+export function readISO(v: unknown) {
+  if (typeof v !== "string") return undefined;
+  return Number.isNaN(new Date(v).getTime()) ? undefined : v;
+}
@@ -0,0 +1,190 @@
+/* =========================
+   Service worker do temporizador
+
+   Guarda os avisos agendados pela página e os mostra na hora por dois
+   caminhos:
+     - push (quando o servidor tem chaves VAPID): o servidor recebe a
+       mesma agenda em /api/push e, na hora, manda o aviso pelo serviço
+       de push do navegador, que acorda este worker mesmo sem aba aberta;
+     - agenda local: TimestampTrigger onde existe, senão setTimeout,
+       que morre junto com o worker (aí o aviso depende de uma aba do
+       app aberta, ainda que em segundo plano).
+   Os dois usam a mesma `tag`, então o mesmo aviso nunca aparece em
+   dobro. Os cliques nos botões da notificação ficam guardados até a
+   página abrir e buscá-los.
+
+   Mensagens da página:
+     { type: "schedule", notices: Notice[] }  substitui a agenda
+     { type: "takeActions" } + MessagePort    responde { actions } e limpa
+   Push do servidor: o próprio Notice em JSON
+   Mensagem para a página:
+     { type: "actions" }                      há ações pendentes
+========================= */
+const STORE = "temporizador-sw";
+const NOTICES_URL = "/__sw/notices";
+const ACTIONS_URL = "/__sw/actions";
+
+let timeouts = [];
+
+async function readJSON(url, fallback) {
+  const cache = await caches.open(STORE);
+  const res = await cache.match(url);
+  if (!res) return fallback;
+  try {
+    return await res.json();
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJSON(url, value) {
+  const cache = await caches.open(STORE);
+  await cache.put(
+    url,
+    new Response(JSON.stringify(value), {
+      headers: { "Content-Type": "application/json" },
+    }),
+  );
+}
+
+function supportsTriggers() {
+  return "showTrigger" in Notification.prototype && "TimestampTrigger" in self;
+}
+
+function show(notice, extra) {
+  return self.registration.showNotification(notice.title, {
+    body: notice.body,
+    tag: notice.tag,
+    icon: "/icon-192.png",
+    badge: "/icon-192.png",
+    requireInteraction: true,
+    actions: notice.actions,
+    data: notice.data,
+    ...extra,
+  });
+}
+
+/** Mostra os avisos vencidos e tira da agenda. */
+async function deliverDue() {
+  const notices = await readJSON(NOTICES_URL, []);
+  const now = Date.now();
+  const due = notices.filter((n) => n.at <= now);
+  if (!due.length) return;
+  await writeJSON(
+    NOTICES_URL,
+    notices.filter((n) => n.at > now),
+  );
+  // com gatilho, o próprio sistema já mostrou na hora certa
+  if (!supportsTriggers()) await Promise.all(due.map((n) => show(n)));
+}
+
+async function arm() {
+  timeouts.forEach(clearTimeout);
+  timeouts = [];
+
+  const notices = await readJSON(NOTICES_URL, []);
+  const tags = new Set(notices.map((n) => n.tag));
+
+  if (supportsTriggers()) {
+    // o que saiu da agenda (pausado, zerado...) não pode mais disparar
+    const pending = await self.registration.getNotifications({
+      includeTriggered: true,
+    });
+    for (const n of pending) {
+      if (n.showTrigger && !tags.has(n.tag)) n.close();
+    }
+  }
+
+  const now = Date.now();
+  for (const n of notices) {
+    if (n.at <= now) continue;
+    if (supportsTriggers()) {
+      await show(n, { showTrigger: new TimestampTrigger(n.at) });
+    } else {
+      timeouts.push(setTimeout(deliverDue, n.at - now));
+    }
+  }
+  await deliverDue();
+}
+
+async function notifyClients() {
+  const windows = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  for (const c of windows) c.postMessage({ type: "actions" });
+  return windows;
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim().then(arm));
+});
+
+self.addEventListener("message", (event) => {
+  const msg = event.data || {};
+
+  if (msg.type === "schedule") {
+    event.waitUntil(writeJSON(NOTICES_URL, msg.notices || []).then(arm));
+  }
+
+  if (msg.type === "takeActions") {
+    const port = event.ports[0];
+    event.waitUntil(
+      readJSON(ACTIONS_URL, []).then(async (actions) => {
+        await writeJSON(ACTIONS_URL, []);
+        if (port) port.postMessage({ actions });
+      }),
+    );
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let notice = null;
+  try {
+    notice = event.data ? event.data.json() : null;
+  } catch {
+    // ignore
+  }
+  if (!notice || !notice.title) return;
+
+  event.waitUntil(
+    (async () => {
+      // entregue pelo servidor: sai da agenda local para não repetir
+      const notices = await readJSON(NOTICES_URL, []);
+      await writeJSON(
+        NOTICES_URL,
+        notices.filter((n) => n.tag !== notice.tag),
+      );
+      await show(notice);
+    })(),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const { notification, action } = event;
+  notification.close();
+
+  event.waitUntil(
+    (async () => {
+      const data = notification.data;
+      if (action && data && data.timerId) {
+        const actions = await readJSON(ACTIONS_URL, []);
+        actions.push({
+          action,
+          timerId: data.timerId,
+          finished: data.finished,
+          at: Date.now(),
+        });
+        await writeJSON(ACTIONS_URL, actions);
+      }
+
+      const windows = await notifyClients();
+      if (windows.length) return windows[0].focus();
+      return self.clients.openWindow("/");
+    })(),
+  );
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// fuso fixo e fora do UTC: as contas de "dia local" ficam testáveis
+process.env.TZ = "America/Sao_Paulo";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+});